@@ -46,9 +46,14 @@ async function main() {
 
     console.log('Chain ID:', status.chainId);
     console.log('Block height:', status.blockHeight.toString());
-    console.log('Block time:', formatTimestamp(status.blockTime));
-    console.log('Peer count:', status.peerCount);
-    console.log('Syncing:', status.isSyncing);
+    console.log('Mempool size:', status.mempoolSize);
+    console.log('Total transactions:', status.totalTransactions.toString());
+
+    const sync = await client.getSyncStatus();
+    if (sync.latestBlockTime !== null) {
+      console.log('Block time:', formatTimestamp(sync.latestBlockTime));
+    }
+    console.log('Syncing:', sync.isSyncing);
   } catch (error) {
     console.log('Error:', (error as Error).message);
   }
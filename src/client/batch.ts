@@ -0,0 +1,139 @@
+/**
+ * JSON-RPC 2.0 batch requests
+ */
+
+import type { RpcRequest, RpcResponse, RequestOptions } from './index.js';
+import { TransactionJson, TransactionReceipt, TesseraError, ErrorCode } from '../types/index.js';
+import { rpcError } from './errors.js';
+
+/**
+ * Outcome of a single call in a batch
+ */
+export type BatchResult<T = unknown> =
+  | { ok: true; value: T; error?: undefined }
+  | { ok: false; value?: undefined; error: TesseraError };
+
+interface BatchEntry {
+  request: RpcRequest;
+  transform: (result: unknown) => unknown;
+}
+
+/**
+ * A group of JSON-RPC calls sent as a single HTTP request
+ *
+ * @example
+ * const batch = client.batch();
+ * batch.submitTransaction(tx1);
+ * batch.submitTransaction(tx2);
+ * const results = await batch.send();
+ */
+export class RpcBatch {
+  private readonly entries: BatchEntry[] = [];
+  private sent = false;
+
+  /**
+   * @internal Created through `TesseraClient.batch()`
+   */
+  constructor(
+    private readonly nextId: () => number,
+    private readonly transport: (
+      requests: RpcRequest[],
+      options?: RequestOptions
+    ) => Promise<unknown>,
+    private readonly acknowledge: (tx: TransactionJson, result: unknown) => TransactionReceipt
+  ) {}
+
+  /**
+   * Number of calls in the batch
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Add a JSON-RPC call to the batch
+   * @returns Index of the call's result in `send()`
+   */
+  add<T = unknown>(method: string, params?: unknown, transform?: (result: unknown) => T): number {
+    if (this.sent) {
+      throw new TesseraError(ErrorCode.InvalidArgument, 'Batch has already been sent');
+    }
+
+    this.entries.push({
+      request: { jsonrpc: '2.0', method, params: params ?? {}, id: this.nextId() },
+      transform: transform ?? ((result) => result),
+    });
+    return this.entries.length - 1;
+  }
+
+  /**
+   * Add a signed transaction submission to the batch
+   * @returns Index of the call's result in `send()`
+   */
+  submitTransaction(tx: TransactionJson): number {
+    return this.add<TransactionReceipt>('tx_submit', tx, (result) => this.acknowledge(tx, result));
+  }
+
+  /**
+   * Send all calls and return their results in insertion order.
+   * Per-call JSON-RPC errors are reported in the results; only transport
+   * failures reject the returned promise.
+   */
+  async send(options?: RequestOptions): Promise<BatchResult[]> {
+    if (this.sent) {
+      throw new TesseraError(ErrorCode.InvalidArgument, 'Batch has already been sent');
+    }
+    this.sent = true;
+
+    if (this.entries.length === 0) return [];
+
+    const response = await this.transport(
+      this.entries.map((entry) => entry.request),
+      options
+    );
+
+    if (!Array.isArray(response)) {
+      const error = (response as RpcResponse<unknown> | null)?.error;
+      throw new TesseraError(
+        ErrorCode.RpcError,
+        error?.message ?? 'Invalid batch response: expected an array',
+        error ?? response
+      );
+    }
+
+    const byId = new Map<number, RpcResponse<unknown>>();
+    for (const item of response as RpcResponse<unknown>[]) {
+      if (item && typeof item.id === 'number') byId.set(item.id, item);
+    }
+
+    return this.entries.map(({ request, transform }): BatchResult => {
+      const item = byId.get(request.id);
+
+      if (!item) {
+        return {
+          ok: false,
+          error: new TesseraError(ErrorCode.RpcError, `No response for batch call ${request.id}`),
+        };
+      }
+
+      if (item.error) {
+        return {
+          ok: false,
+          error: rpcError(item.error),
+        };
+      }
+
+      try {
+        return { ok: true, value: transform(item.result) };
+      } catch (error) {
+        return {
+          ok: false,
+          error:
+            error instanceof TesseraError
+              ? error
+              : new TesseraError(ErrorCode.RpcError, (error as Error).message, item.result),
+        };
+      }
+    });
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Parallel block range fetching
+ */
+
+import type { RequestOptions } from './index.js';
+import { Block } from '../types/index.js';
+
+/**
+ * Options for `TesseraClient.getBlocks` and `TesseraClient.iterateBlocks`
+ */
+export interface BlockRangeOptions extends RequestOptions {
+  /** Maximum number of heights fetched in parallel (default: 4) */
+  concurrency?: number;
+  /**
+   * Extra attempts per height after a transient failure, replacing the client's
+   * `retry.maxAttempts` for these calls; backoff and retryability follow the
+   * client's retry policy (default: 2)
+   */
+  retries?: number;
+}
+
+/**
+ * Block at a height within a range, or null when the node has no block there
+ */
+export interface BlockRangeItem {
+  height: bigint;
+  block: Block | null;
+}
+
+/**
+ * Load a single block, returning null only when the node has no block at that height
+ */
+export type BlockLoader = (height: bigint, options: RequestOptions) => Promise<Block | null>;
+
+/**
+ * Yield every height from `fromHeight` to `toHeight` (inclusive) in order,
+ * keeping up to `concurrency` requests in flight.
+ */
+export async function* fetchBlockRange(
+  load: BlockLoader,
+  fromHeight: bigint,
+  toHeight: bigint,
+  options: Omit<BlockRangeOptions, 'retries'> = {}
+): AsyncGenerator<BlockRangeItem, void, undefined> {
+  const { concurrency = 4, ...requestOptions } = options;
+  const window: Promise<Block | null>[] = [];
+  let nextHeight = fromHeight;
+
+  const fill = () => {
+    while (window.length < Math.max(1, concurrency) && nextHeight <= toHeight) {
+      const pending = load(nextHeight++, requestOptions);
+      // Failures are surfaced in order when the height is reached
+      pending.catch(() => undefined);
+      window.push(pending);
+    }
+  };
+
+  fill();
+  for (let height = fromHeight; window.length > 0; height++) {
+    const block = await window.shift()!;
+    fill();
+    yield { height, block };
+  }
+}
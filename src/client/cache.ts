@@ -0,0 +1,183 @@
+/**
+ * Response caching for TesseraClient
+ */
+
+/**
+ * Cached response body
+ */
+export interface CacheEntry {
+  value: unknown;
+  /** Expiry time (Unix milliseconds), or null for entries that never expire */
+  expiresAt: number | null;
+}
+
+/**
+ * Storage backend for the response cache (may be synchronous or asynchronous)
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * Cache configuration for TesseraClient
+ */
+export interface CacheOptions {
+  /** Storage backend (default: MemoryCacheStore) */
+  store?: CacheStore;
+  /**
+   * TTL in milliseconds per endpoint path, merged over DEFAULT_CACHE_TTL.
+   * Use 0 to disable caching for a path.
+   */
+  ttl?: Record<string, number>;
+  /** Share a single in-flight request between identical concurrent calls (default: true) */
+  dedupe?: boolean;
+}
+
+/**
+ * Default TTLs for endpoints returning mutable chain state
+ */
+export const DEFAULT_CACHE_TTL: Readonly<Record<string, number>> = {
+  '/chain_params': 60_000,
+  '/validators': 10_000,
+  '/proposals': 10_000,
+};
+
+/**
+ * In-memory cache store with least-recently-used eviction
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * TTL for a response, or null when it must not be cached.
+ * BFT blocks are final once committed, so blocks and included transactions
+ * never expire.
+ */
+function responseTtl(path: string, data: unknown, ttl: Record<string, number>): number | null {
+  if (ttl[path] === 0) return null;
+
+  if (path === '/get_block') {
+    return (data as { block?: unknown } | null)?.block ? Infinity : null;
+  }
+  if (path === '/get_transaction') {
+    const response = data as { transaction?: unknown; in_mempool?: boolean } | null;
+    return response?.transaction && response.in_mempool === false ? Infinity : null;
+  }
+
+  const value = ttl[path];
+  return value !== undefined && value > 0 ? value : null;
+}
+
+/**
+ * Response cache with in-flight request deduplication
+ */
+export class ResponseCache {
+  private readonly store: CacheStore;
+  private readonly ttl: Record<string, number>;
+  private readonly dedupe: boolean;
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(options: CacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.ttl = { ...DEFAULT_CACHE_TTL, ...options.ttl };
+    this.dedupe = options.dedupe ?? true;
+  }
+
+  /**
+   * Build the cache key for a request. Keys include the endpoint so a shared
+   * store never serves one node's responses to another.
+   */
+  static key(endpoint: string, method: string, path: string, body?: unknown): string {
+    const request = `${method} ${endpoint}${path}`;
+    return body === undefined ? request : `${request} ${JSON.stringify(body)}`;
+  }
+
+  /**
+   * Return a cached response or load it, sharing concurrent loads when allowed.
+   * Every caller gets its own copy, so mutating a response never changes what
+   * later callers see.
+   */
+  async fetch<T>(
+    key: string,
+    path: string,
+    load: () => Promise<T>,
+    options: { dedupe?: boolean } = {}
+  ): Promise<T> {
+    const cached = await this.store.get(key);
+    if (cached) {
+      if (cached.expiresAt === null || cached.expiresAt > Date.now()) {
+        return structuredClone(cached.value) as T;
+      }
+      await this.store.delete(key);
+    }
+
+    const dedupe = this.dedupe && options.dedupe !== false;
+    if (dedupe) {
+      const pending = this.inFlight.get(key);
+      if (pending) return pending.then((data) => structuredClone(data) as T);
+    }
+
+    const promise = load().then(async (data) => {
+      const ttl = responseTtl(path, data, this.ttl);
+      if (ttl !== null) {
+        await this.store.set(key, {
+          value: structuredClone(data),
+          expiresAt: ttl === Infinity ? null : Date.now() + ttl,
+        });
+      }
+      return data;
+    });
+
+    if (dedupe) {
+      this.inFlight.set(key, promise);
+      promise
+        .finally(() => this.inFlight.delete(key))
+        .catch(() => {
+          // Errors are surfaced to the callers of the shared promise
+        });
+    }
+
+    return promise;
+  }
+
+  /**
+   * Drop every cached response
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Mapping of node failures to SDK error codes
+ */
+
+import { TesseraError, ErrorCode } from '../types/index.js';
+
+/**
+ * Node error messages and the error codes they map to, checked in order
+ */
+const NODE_ERROR_PATTERNS: [RegExp, ErrorCode][] = [
+  [
+    /chain[ _-]?id (mismatch|does not match)|(wrong|invalid) chain[ _-]?id/i,
+    ErrorCode.ChainMismatch,
+  ],
+  [
+    /\b(invalid|wrong|bad|unexpected) nonce\b|\bnonce (too (low|high)|mismatch|already used)/i,
+    ErrorCode.InvalidNonce,
+  ],
+  [/insufficient (balance|funds)/i, ErrorCode.InsufficientBalance],
+  [
+    /\b(invalid|bad|wrong) signature\b|\bsignature (verification failed|is invalid|mismatch)/i,
+    ErrorCode.InvalidSignature,
+  ],
+  [
+    /duplicate (transaction|tx)\b|\b(transaction|tx) already (exists|known|in (the )?mempool)/i,
+    ErrorCode.DuplicateTransaction,
+  ],
+  [/mempool (is )?full|mempool capacity/i, ErrorCode.MempoolFull],
+];
+
+/**
+ * JSON-RPC protocol error codes (parse error, invalid request, method not
+ * found, invalid params, internal error). They describe the call itself, so
+ * their messages are not matched against transaction failures.
+ */
+const JSON_RPC_PROTOCOL_ERRORS = new Set([-32700, -32600, -32601, -32602, -32603]);
+
+/**
+ * Classify a node failure by HTTP status, JSON-RPC error code and error message.
+ * HTTP 404 maps to `NotFound`; JSON-RPC protocol errors and unrecognized
+ * failures stay `RpcError`.
+ */
+export function classifyNodeError(message: string, status?: number, rpcCode?: number): ErrorCode {
+  if (status === 404) return ErrorCode.NotFound;
+  if (rpcCode !== undefined && JSON_RPC_PROTOCOL_ERRORS.has(rpcCode)) return ErrorCode.RpcError;
+
+  const match = NODE_ERROR_PATTERNS.find(([pattern]) => pattern.test(message));
+  return match ? match[1] : ErrorCode.RpcError;
+}
+
+/**
+ * Extract the error message from a node response body, if any
+ */
+export function nodeErrorMessage(body: unknown): string | undefined {
+  if (typeof body === 'string') return body || undefined;
+  if (typeof body !== 'object' || body === null) return undefined;
+
+  const { error, message } = body as { error?: unknown; message?: unknown };
+  if (typeof error === 'string') return error;
+  if (typeof (error as { message?: unknown } | null)?.message === 'string') {
+    return (error as { message: string }).message;
+  }
+  return typeof message === 'string' ? message : undefined;
+}
+
+/**
+ * Build the error for a non-2xx HTTP response
+ */
+export function httpError(
+  status: number,
+  statusText: string,
+  headers: Record<string, string>,
+  body: unknown
+): TesseraError {
+  const message = nodeErrorMessage(body);
+  return new TesseraError(
+    classifyNodeError(message ?? '', status),
+    `HTTP ${status}: ${message ?? statusText}`,
+    { status, statusText, headers, body }
+  );
+}
+
+/**
+ * Build the error for a JSON-RPC error object
+ */
+export function rpcError(error: { code: number; message: string; data?: unknown }): TesseraError {
+  return new TesseraError(
+    classifyNodeError(error.message, undefined, error.code),
+    error.message,
+    error
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * Paginated account transaction history
+ */
+
+import type { TesseraClient, RequestOptions } from './index.js';
+import { TxType, TransactionJson, TesseraError, ErrorCode } from '../types/index.js';
+import { TX_TYPE_NAMES, jsonToTransaction, calculateHash } from '../transaction/index.js';
+
+/**
+ * Order of an account's transaction history
+ */
+export type TransactionDirection = 'asc' | 'desc';
+
+/**
+ * Filters for `TesseraClient.getTransactions`, applied by the node
+ */
+export interface TransactionQuery {
+  /** Newest first ('desc') or oldest first ('asc'); node default when omitted */
+  direction?: TransactionDirection;
+  /** Lowest block height to include */
+  fromHeight?: bigint;
+  /** Highest block height to include */
+  toHeight?: bigint;
+}
+
+/**
+ * Options for `TesseraClient.iterateTransactions`
+ */
+export interface IterateTransactionsOptions extends TransactionQuery, RequestOptions {
+  /** Transactions requested per page (default: 50) */
+  pageSize?: number;
+  /** Only yield transactions of these types */
+  txTypes?: TxType[];
+}
+
+/**
+ * Yield an account's transactions, fetching pages as needed.
+ *
+ * Without `toHeight`, the range is pinned to the chain height at the start of
+ * iteration, so transactions committed meanwhile do not shift later pages.
+ * Transactions are also de-duplicated by hash in case the node ignores the range.
+ */
+export async function* iterateTransactions(
+  client: TesseraClient,
+  address: string,
+  options: IterateTransactionsOptions = {}
+): AsyncGenerator<TransactionJson, void, undefined> {
+  const { pageSize = 50, txTypes, direction = 'desc', fromHeight, ...requestOptions } = options;
+  if (!Number.isSafeInteger(pageSize) || pageSize <= 0) {
+    throw new TesseraError(
+      ErrorCode.InvalidArgument,
+      `pageSize must be a positive integer, got ${pageSize}`,
+      { pageSize }
+    );
+  }
+  const types = txTypes ? new Set(txTypes.map((type) => TX_TYPE_NAMES[type])) : null;
+
+  const toHeight = options.toHeight ?? (await client.getNetworkStatus(requestOptions)).blockHeight;
+
+  const seen = new Set<string>();
+  for (let offset = 0; ; offset += pageSize) {
+    const page = await client.getTransactions(address, {
+      ...requestOptions,
+      limit: pageSize,
+      offset,
+      direction,
+      fromHeight,
+      toHeight,
+    });
+
+    for (const tx of page) {
+      const hash = tx.hash ?? calculateHash(jsonToTransaction(tx));
+      if (seen.has(hash)) continue;
+      seen.add(hash);
+
+      if (types && !types.has(tx.tx_type)) continue;
+      yield tx;
+    }
+
+    if (page.length < pageSize) return;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Network identity pinning
+ */
+
+import { NetworkIdentity, TesseraError, ErrorCode } from '../types/index.js';
+
+/**
+ * Identity fields a client or wallet can be pinned to; omitted fields are not checked
+ */
+export type ExpectedNetworkIdentity = Partial<
+  Pick<NetworkIdentity, 'chainId' | 'networkId' | 'genesisHash'>
+>;
+
+const FIELDS = ['chainId', 'networkId', 'genesisHash'] as const;
+
+/**
+ * Throw `ErrorCode.ChainMismatch` when an identity differs from the expected one
+ */
+export function assertNetworkIdentity(
+  expected: ExpectedNetworkIdentity,
+  actual: ExpectedNetworkIdentity,
+  source = 'Connected node'
+): void {
+  for (const field of FIELDS) {
+    const value = expected[field];
+    if (value !== undefined && actual[field] !== value) {
+      throw new TesseraError(
+        ErrorCode.ChainMismatch,
+        `${source} has ${field} ${actual[field]}, expected ${value}`,
+        { field, expected: value, actual: actual[field] }
+      );
+    }
+  }
+}
+
+/**
+ * Verifies a node's identity once and remembers the outcome.
+ * A mismatch is permanent; transient failures are retried on the next call.
+ */
+export class IdentityGuard {
+  private check: Promise<void> | null = null;
+
+  constructor(readonly expected: ExpectedNetworkIdentity) {}
+
+  verify(load: () => Promise<NetworkIdentity>): Promise<void> {
+    this.check ??= load().then(
+      (identity) => assertNetworkIdentity(this.expected, identity),
+      (error: unknown) => {
+        this.check = null;
+        throw error;
+      }
+    );
+    return this.check;
+  }
+}
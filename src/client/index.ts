@@ -7,6 +7,7 @@ import {
   Block,
   NetworkIdentity,
   NetworkStatus,
+  Transaction,
   TransactionJson,
   TransactionReceipt,
   Validator,
@@ -16,6 +17,48 @@ import {
   ErrorCode,
 } from '../types/index.js';
 import { RpcEndpoints } from '../utils/constants.js';
+import { TransactionBuilder } from '../transaction/index.js';
+import {
+  TransactionEnvelope,
+  EnvelopeDisplayOptions,
+  createEnvelope,
+  decodeEnvelope,
+} from '../transaction/envelope.js';
+import { verifyTransaction } from '../transaction/verify.js';
+import { Network, NetworkLike } from '../network/index.js';
+import {
+  RetryOptions,
+  ResolvedRetryOptions,
+  resolveRetryOptions,
+  isRetryableError,
+  getErrorStatus,
+  computeBackoff,
+  sleep,
+} from './retry.js';
+import { RpcBatch } from './batch.js';
+import {
+  SubscriptionManager,
+  SubscriptionOptions,
+  SubscriptionTopic,
+  SubscriptionData,
+  Subscription,
+} from './subscriptions.js';
+import { watchBlocks, WatchBlocksOptions } from './watch.js';
+import { proveInclusion } from './receipt.js';
+import { httpError, rpcError } from './errors.js';
+import { consistentRead, ConsistentReadOptions, StateView } from './snapshot.js';
+import { Instrumentation, InstrumentationOptions, RequestEventInfo } from './instrumentation.js';
+import { ExpectedNetworkIdentity, IdentityGuard, assertNetworkIdentity } from './identity.js';
+import { assertTransactionHash, diagnoseHashMismatch, HashMismatchDiagnosis } from './integrity.js';
+import { getSyncStatus, SyncStatus, SyncStatusOptions } from './sync.js';
+import { fetchBlockRange, BlockRangeOptions, BlockRangeItem } from './blocks.js';
+import { iterateTransactions, IterateTransactionsOptions, TransactionQuery } from './history.js';
+import { Transport, TransportRequest, HttpTransport } from './transport.js';
+import { Middleware, runMiddleware } from './middleware.js';
+import { CacheOptions, ResponseCache } from './cache.js';
+import { ValidationMode, validateResponse } from './schema.js';
+import { EndpointSchemas, RpcEnvelopeSchema, RpcBatchSchema, RpcResultSchemas } from './schemas.js';
+import { RateLimiter, RateLimitOptions, RequestPriority, parseRetryAfter } from './rate-limit.js';
 
 /**
  * Client configuration options
@@ -25,12 +68,112 @@ export interface ClientOptions {
   timeout?: number;
   /** Custom headers to include in requests */
   headers?: Record<string, string>;
+  /** Retry policy for transient failures (default: no retries) */
+  retry?: RetryOptions;
+  /** WebSocket subscription settings */
+  subscriptions?: SubscriptionOptions;
+  /** Transport used for HTTP and JSON-RPC requests (default: HttpTransport) */
+  transport?: Transport;
+  /** fetch implementation for the default HTTP transport (ignored when `transport` is set) */
+  fetch?: typeof fetch;
+  /** Middleware run around every request, in order */
+  middleware?: Middleware[];
+  /** Enable response caching and in-flight request deduplication (default: disabled) */
+  cache?: CacheOptions | boolean;
+  /** Client-side rate limiting and concurrency control (default: disabled) */
+  rateLimit?: RateLimitOptions;
+  /**
+   * Response validation: 'lenient' ignores unknown fields, 'strict' rejects them,
+   * false disables validation (default: 'lenient')
+   */
+  validation?: ValidationMode | false;
+  /**
+   * Network the node must belong to. Checked once against /network_identity
+   * before the first transaction is submitted.
+   */
+  expectedIdentity?: ExpectedNetworkIdentity;
+  /**
+   * Compare the hash returned by tx_submit with the locally computed one and
+   * throw `ErrorCode.HashMismatch` on divergence. The node has already
+   * accepted the transaction when the check fails (default: false)
+   */
+  verifyHashes?: boolean;
+  /** Event, logger and tracing hooks (default: none) */
+  instrumentation?: InstrumentationOptions;
+}
+
+/**
+ * Per-call request options accepted by every client method
+ */
+export interface RequestOptions {
+  /** Cancels the call when aborted */
+  signal?: AbortSignal;
+  /** Timeout for this call in milliseconds (overrides ClientOptions.timeout) */
+  timeout?: number;
+  /** Rate limiter lane (default: 'high' for submitTransaction, 'normal' otherwise) */
+  priority?: RequestPriority;
+}
+
+/**
+ * Options for state queries that can target a past block height
+ */
+export interface StateQueryOptions extends RequestOptions {
+  /**
+   * Read the state as of this block height instead of the latest block. Sent
+   * as the `height` query parameter; the node must echo the height it read at,
+   * otherwise `ErrorCode.HistoricalStateUnavailable` is thrown.
+   */
+  atHeight?: bigint;
+}
+
+/**
+ * Options for TesseraClient.createEnvelope
+ */
+export interface CreateEnvelopeOptions extends RequestOptions, EnvelopeDisplayOptions {
+  /** Chain ID (default: the pinned identity's, else the node's) */
+  chainId?: string;
+  /** Nonce (default: the sender's next nonce) */
+  nonce?: bigint;
+}
+
+/**
+ * Options for TesseraClient.getTransactionReceipt
+ */
+export interface ReceiptOptions extends RequestOptions {
+  /** Fetch the block and build a Merkle inclusion proof (default: true) */
+  proof?: boolean;
+}
+
+/**
+ * Per-call request settings threaded through the request pipeline
+ */
+interface RequestContext extends RequestOptions {
+  /** Query string parameters */
+  query?: Record<string, string>;
+  /** JSON-RPC method for /rpc calls */
+  rpcMethod?: string;
+  /** Set to false to disable retries for this call */
+  retryable?: boolean;
+  /** Maximum attempts for this call (overrides the retry policy's maxAttempts) */
+  maxAttempts?: number;
+  /** Updated with the number of attempts sent so far */
+  attempts?: { count: number };
+}
+
+/**
+ * JSON-RPC request body
+ */
+export interface RpcRequest {
+  jsonrpc: '2.0';
+  method: string;
+  params: unknown;
+  id: number;
 }
 
 /**
  * RPC response wrapper
  */
-interface RpcResponse<T> {
+export interface RpcResponse<T> {
   jsonrpc: string;
   result?: T;
   error?: {
@@ -40,6 +183,120 @@ interface RpcResponse<T> {
   id: number;
 }
 
+/**
+ * Block as returned by the node
+ */
+export interface RawBlock {
+  height: number;
+  timestamp: number;
+  prev_hash: string;
+  merkle_root: string;
+  proposer: string;
+  transactions: TransactionJson[];
+  hash: string;
+  signature?: string;
+}
+
+/**
+ * Convert a node block into a Block
+ */
+export function parseBlock(block: RawBlock): Block {
+  return {
+    header: {
+      height: BigInt(block.height),
+      timestamp: BigInt(block.timestamp),
+      previousHash: block.prev_hash,
+      transactionsRoot: block.merkle_root,
+      stateRoot: '', // Not provided by API
+      proposer: block.proposer,
+    },
+    transactions: block.transactions,
+    hash: block.hash,
+  };
+}
+
+/**
+ * Get the Retry-After delay in milliseconds from an HTTP error, if present
+ */
+function getRetryAfter(error: TesseraError): number | null {
+  const headers = (error.details as { headers?: Record<string, string> } | undefined)?.headers;
+  return parseRetryAfter(headers?.['retry-after']);
+}
+
+/**
+ * Throw ErrorCode.Aborted if the caller's signal has been aborted
+ */
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new TesseraError(ErrorCode.Aborted, 'Request aborted', signal.reason);
+  }
+}
+
+/**
+ * Build a query string ('' when there are no parameters)
+ */
+function queryString(query?: Record<string, string>): string {
+  return query && Object.keys(query).length > 0 ? `?${new URLSearchParams(query)}` : '';
+}
+
+/**
+ * Query parameters selecting the state height of a query
+ */
+function heightQuery(options?: StateQueryOptions): Record<string, string> | undefined {
+  return options?.atHeight !== undefined ? { height: options.atHeight.toString() } : undefined;
+}
+
+/**
+ * Check that a node answered a historical query at the requested height.
+ * Nodes without historical state ignore the height and answer from the latest
+ * block without echoing it.
+ */
+function assertStateHeight(
+  path: string,
+  height: number | string | undefined,
+  options?: StateQueryOptions
+): void {
+  if (options?.atHeight === undefined) return;
+  if (height === undefined || BigInt(height) !== options.atHeight) {
+    throw new TesseraError(
+      ErrorCode.HistoricalStateUnavailable,
+      `${path} did not return state at height ${options.atHeight}`,
+      { path, requested: options.atHeight, returned: height ?? null }
+    );
+  }
+}
+
+/**
+ * Check whether a JSON-RPC call is safe to retry.
+ * `tx_submit` is only retried when the transaction carries its hash, so the
+ * node can recognise a resubmission of the same transaction.
+ */
+function isIdempotentRpc(method: string, params: unknown): boolean {
+  if (method !== 'tx_submit') return true;
+  const hash = (params as { hash?: unknown } | undefined)?.hash;
+  return typeof hash === 'string' && hash.length > 0;
+}
+
+/**
+ * Replace duplicate errors of tx_submit calls in a retried batch with the hash
+ * the transaction was submitted under: an earlier attempt reached the node
+ */
+function acceptResubmittedDuplicates(requests: RpcRequest[], response: unknown): unknown {
+  if (!Array.isArray(response)) return response;
+
+  const submissions = new Map(
+    requests
+      .filter((request) => request.method === 'tx_submit')
+      .map((request) => [request.id, (request.params as TransactionJson).hash])
+  );
+  return response.map((item: RpcResponse<unknown>) => {
+    const hash = submissions.get(item?.id);
+    if (hash === undefined || !item.error) return item;
+    if (rpcError(item.error).code !== ErrorCode.DuplicateTransaction) return item;
+    return { jsonrpc: item.jsonrpc, id: item.id, result: { hash, status: 'pending' } };
+  });
+}
+
 /**
  * Tessera RPC Client for interacting with Tessera nodes
  */
@@ -47,6 +304,18 @@ export class TesseraClient {
   private readonly endpoint: string;
   private readonly timeout: number;
   private readonly headers: Record<string, string>;
+  private readonly retry: ResolvedRetryOptions;
+  private readonly transport: Transport;
+  private readonly middleware: Middleware[];
+  private readonly cache: ResponseCache | null;
+  private readonly rateLimiter: RateLimiter | null;
+  private readonly validation: ValidationMode | false;
+  private readonly subscriptionOptions: SubscriptionOptions;
+  private readonly identityGuard: IdentityGuard | null;
+  private readonly verifyHashes: boolean;
+  /** Event, logger and tracing hooks; shared with wallets using this client */
+  readonly instrumentation: Instrumentation;
+  private subscriptions: SubscriptionManager | null = null;
   private requestId = 0;
 
   /**
@@ -61,6 +330,62 @@ export class TesseraClient {
       'Content-Type': 'application/json',
       ...options.headers,
     };
+    this.retry = resolveRetryOptions(options.retry);
+    this.transport = options.transport ?? new HttpTransport({ fetch: options.fetch });
+    this.middleware = [...(options.middleware ?? [])];
+    this.cache = options.cache
+      ? new ResponseCache(options.cache === true ? {} : options.cache)
+      : null;
+    this.rateLimiter = options.rateLimit ? new RateLimiter(options.rateLimit) : null;
+    this.validation = options.validation ?? 'lenient';
+    this.subscriptionOptions = options.subscriptions ?? {};
+    this.identityGuard = options.expectedIdentity
+      ? new IdentityGuard(options.expectedIdentity)
+      : null;
+    this.verifyHashes = options.verifyHashes ?? false;
+    this.instrumentation = new Instrumentation(options.instrumentation);
+  }
+
+  /**
+   * Create a client for a registered network (or a network configuration),
+   * pinned to the network's identity
+   * @param network - Network name such as 'testnet', or a NetworkConfig
+   * @param options - Client options, overriding the network defaults
+   */
+  static forNetwork(network: NetworkLike, options: ClientOptions = {}): TesseraClient {
+    const config = Network.get(network);
+
+    return new TesseraClient(config.rpcEndpoint, {
+      expectedIdentity: config.expectedIdentity,
+      ...options,
+      subscriptions: {
+        ...(config.wsEndpoint !== undefined && { url: config.wsEndpoint }),
+        ...options.subscriptions,
+      },
+    });
+  }
+
+  // ============================================================================
+  // Middleware
+  // ============================================================================
+
+  /**
+   * Append a middleware to the end of the chain
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  // ============================================================================
+  // Caching
+  // ============================================================================
+
+  /**
+   * Drop every cached response
+   */
+  async clearCache(): Promise<void> {
+    await this.cache?.clear();
   }
 
   // ============================================================================
@@ -70,90 +395,353 @@ export class TesseraClient {
   /**
    * Make a GET request
    */
-  private async get<T>(path: string): Promise<T> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+  private async get<T>(
+    path: string,
+    options?: RequestOptions,
+    query?: Record<string, string>
+  ): Promise<T> {
+    return this.request<T>('GET', path, undefined, { ...options, query });
+  }
 
-    try {
-      const response = await fetch(`${this.endpoint}${path}`, {
-        method: 'GET',
-        headers: this.headers,
-        signal: controller.signal,
-      });
+  /**
+   * Make a POST request
+   */
+  private async post<T>(
+    path: string,
+    body: unknown,
+    options?: RequestContext,
+    query?: Record<string, string>
+  ): Promise<T> {
+    return this.request<T>('POST', path, body, { ...options, query });
+  }
 
-      if (!response.ok) {
-        throw new TesseraError(
-          ErrorCode.RpcError,
-          `HTTP ${response.status}: ${response.statusText}`
+  /**
+   * Make an HTTP request, serving it from the response cache when enabled
+   */
+  private async request<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    body?: unknown,
+    context: RequestContext = {}
+  ): Promise<T> {
+    // JSON-RPC calls may have side effects and are never cached
+    if (!this.cache || path === '/rpc') {
+      return this.requestWithRetry<T>(method, path, body, context);
+    }
+
+    return this.cache.fetch(
+      ResponseCache.key(this.endpoint, method, `${path}${queryString(context.query)}`, body),
+      path,
+      () => this.requestWithRetry<T>(method, path, body, context),
+      // A caller's signal must not cancel a request shared with other callers
+      { dedupe: !context.signal }
+    );
+  }
+
+  /**
+   * Make an HTTP request, retrying transient failures according to the retry policy
+   */
+  private async requestWithRetry<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    body: unknown,
+    context: RequestContext
+  ): Promise<T> {
+    const maxAttempts =
+      context.retryable === false ? 1 : (context.maxAttempts ?? this.retry.maxAttempts);
+    let rateLimitRetries = 0;
+
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(context.signal);
+      if (context.attempts) context.attempts.count = attempt;
+
+      try {
+        return await this.schedule(
+          () => this.send<T>(method, path, body, context, attempt),
+          context
         );
+      } catch (error) {
+        if (!(error instanceof TesseraError)) throw error;
+
+        const retryAfter = getRetryAfter(error);
+
+        // HTTP 429: hold the whole queue for Retry-After, then re-queue this request
+        if (
+          this.rateLimiter &&
+          getErrorStatus(error) === 429 &&
+          rateLimitRetries < this.rateLimiter.maxRateLimitRetries
+        ) {
+          rateLimitRetries++;
+          attempt--;
+          this.rateLimiter.pauseFor(retryAfter ?? computeBackoff(rateLimitRetries, this.retry));
+          continue;
+        }
+
+        if (attempt >= maxAttempts || !isRetryableError(error, this.retry)) {
+          throw error;
+        }
+
+        const delay = Math.max(computeBackoff(attempt, this.retry), retryAfter ?? 0);
+        this.retry.onRetry?.({
+          attempt,
+          delay,
+          error,
+          method,
+          path,
+          rpcMethod: context.rpcMethod,
+        });
+        this.instrumentation.emit({
+          type: 'request:retry',
+          endpoint: this.endpoint,
+          method,
+          path,
+          rpcMethod: context.rpcMethod,
+          attempt,
+          delayMs: delay,
+          error,
+        });
+        await sleep(delay, context.signal);
       }
+    }
+  }
 
-      return (await response.json()) as T;
+  /**
+   * Run a request through the rate limiter when one is configured
+   */
+  private schedule<T>(task: () => Promise<T>, context: RequestContext): Promise<T> {
+    if (!this.rateLimiter) return task();
+    return this.rateLimiter.schedule(task, context.priority, context.signal);
+  }
+
+  /**
+   * Perform a single HTTP request, reporting it to the instrumentation hooks
+   */
+  private async send<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    body: unknown,
+    context: RequestContext,
+    attempt: number
+  ): Promise<T> {
+    const info: RequestEventInfo = {
+      endpoint: this.endpoint,
+      method,
+      path,
+      rpcMethod: context.rpcMethod,
+      attempt,
+    };
+    const span = this.instrumentation.startSpan(`tessera ${context.rpcMethod ?? path}`, {
+      'http.request.method': method,
+      'url.path': path,
+      'rpc.method': context.rpcMethod,
+      'tessera.attempt': attempt,
+    });
+    this.instrumentation.emit({ type: 'request:start', ...info });
+    const startTime = Date.now();
+
+    try {
+      const { status, data } = await this.transmit(method, path, body, context, attempt);
+      this.instrumentation.emit({
+        type: 'request:end',
+        ...info,
+        durationMs: Date.now() - startTime,
+        status,
+      });
+      this.instrumentation.endSpan(span, status);
+      return data as T;
     } catch (error) {
-      if (error instanceof TesseraError) throw error;
-      if ((error as Error).name === 'AbortError') {
-        throw new TesseraError(ErrorCode.Timeout, 'Request timed out');
-      }
-      throw new TesseraError(ErrorCode.NetworkError, (error as Error).message);
-    } finally {
-      clearTimeout(timeoutId);
+      const failure = error as TesseraError;
+      const status = getErrorStatus(failure);
+      this.instrumentation.emit({
+        type: 'request:end',
+        ...info,
+        durationMs: Date.now() - startTime,
+        status,
+        error: failure,
+      });
+      this.instrumentation.endSpan(span, status, failure);
+      throw error;
     }
   }
 
   /**
-   * Make a POST request
+   * Send a request through the middleware chain and transport
+   * @throws TesseraError for HTTP errors, timeouts, aborts and network failures
    */
-  private async post<T>(path: string, body: unknown): Promise<T> {
+  private async transmit(
+    method: 'GET' | 'POST',
+    path: string,
+    body: unknown,
+    context: RequestContext,
+    attempt: number
+  ): Promise<{ status: number; data: unknown }> {
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const timeoutId = setTimeout(() => controller.abort(), context.timeout ?? this.timeout);
+    const onAbort = () => controller.abort();
+    context.signal?.addEventListener('abort', onAbort, { once: true });
 
     try {
-      const response = await fetch(`${this.endpoint}${path}`, {
-        method: 'POST',
-        headers: this.headers,
-        body: JSON.stringify(body),
+      const request: TransportRequest = {
+        method,
+        url: `${this.endpoint}${path}${queryString(context.query)}`,
+        path,
+        headers: { ...this.headers },
+        body,
         signal: controller.signal,
-      });
+      };
+      const response = await runMiddleware(
+        this.middleware,
+        { request, rpcMethod: context.rpcMethod, attempt },
+        this.transport
+      );
 
-      if (!response.ok) {
-        throw new TesseraError(
-          ErrorCode.RpcError,
-          `HTTP ${response.status}: ${response.statusText}`
+      if (response.status < 200 || response.status >= 300) {
+        throw httpError(
+          response.status,
+          response.statusText ?? '',
+          response.headers ?? {},
+          response.data
         );
       }
 
-      return (await response.json()) as T;
+      this.validate(path, response.data);
+      return { status: response.status, data: response.data };
     } catch (error) {
       if (error instanceof TesseraError) throw error;
       if ((error as Error).name === 'AbortError') {
+        throwIfAborted(context.signal);
         throw new TesseraError(ErrorCode.Timeout, 'Request timed out');
       }
       throw new TesseraError(ErrorCode.NetworkError, (error as Error).message);
     } finally {
       clearTimeout(timeoutId);
+      context.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Validate a response body against the schema of its endpoint
+   */
+  private validate(path: string, data: unknown): void {
+    if (!this.validation) return;
+
+    const schema =
+      path === '/rpc'
+        ? Array.isArray(data)
+          ? RpcBatchSchema
+          : RpcEnvelopeSchema
+        : EndpointSchemas[path];
+    if (schema) {
+      validateResponse(schema, data, path, this.validation);
     }
   }
 
   /**
    * Make a JSON-RPC request
    */
-  private async rpc<T>(method: string, params?: unknown): Promise<T> {
-    const body = {
+  private async rpc<T>(method: string, params?: unknown, options?: RequestContext): Promise<T> {
+    const body: RpcRequest = {
       jsonrpc: '2.0',
       method,
       params: params ?? {},
       id: ++this.requestId,
     };
 
-    const response = await this.post<RpcResponse<T>>('/rpc', body);
+    const response = await this.request<RpcResponse<T>>('POST', '/rpc', body, {
+      ...options,
+      rpcMethod: method,
+      retryable: isIdempotentRpc(method, params),
+    });
 
     if (response.error) {
-      throw new TesseraError(ErrorCode.RpcError, response.error.message, response.error);
+      throw rpcError(response.error);
+    }
+
+    const schema = RpcResultSchemas[method];
+    if (schema && this.validation) {
+      validateResponse(schema, response.result, `/rpc ${method}`, this.validation);
     }
 
     return response.result as T;
   }
 
+  /**
+   * Create a JSON-RPC batch that sends several calls in one HTTP request
+   */
+  batch(): RpcBatch {
+    return new RpcBatch(
+      () => ++this.requestId,
+      async (requests, options) => {
+        for (const { method, params } of requests) {
+          if (method === 'tx_submit') await this.verifyTransactionNetwork(params, options);
+        }
+        const attempts = { count: 0 };
+        const response = await this.request<unknown>('POST', '/rpc', requests, {
+          ...options,
+          rpcMethod: 'batch',
+          retryable: requests.every((r) => isIdempotentRpc(r.method, r.params)),
+          attempts,
+        });
+        return attempts.count > 1 ? acceptResubmittedDuplicates(requests, response) : response;
+      },
+      (tx, result) => {
+        if (this.validation) {
+          validateResponse(RpcResultSchemas.tx_submit, result, '/rpc tx_submit', this.validation);
+        }
+        return this.acknowledgeSubmission(tx, result as { hash: string; status: string });
+      }
+    );
+  }
+
+  // ============================================================================
+  // Consistent Reads
+  // ============================================================================
+
+  /**
+   * Run several state queries against the same block height.
+   * Throws `ErrorCode.StateChanged` when pinned to the current height and the
+   * node advanced before the queries finished.
+   *
+   * @example
+   * ```typescript
+   * const [account, validators] = await client.consistentRead((view) =>
+   *   Promise.all([view.getAccount(address), view.getValidators()])
+   * );
+   * ```
+   */
+  async consistentRead<T>(
+    read: (view: StateView) => Promise<T>,
+    options?: ConsistentReadOptions
+  ): Promise<T> {
+    return consistentRead(this, read, options);
+  }
+
+  // ============================================================================
+  // Subscriptions
+  // ============================================================================
+
+  /**
+   * Subscribe to a WebSocket topic
+   * @param topic - 'newBlocks', 'mempool', 'tx:<hash>' or 'account:<address>'
+   * @param listener - Called for every event on the topic
+   */
+  async subscribe<T extends SubscriptionTopic>(
+    topic: T,
+    listener: (data: SubscriptionData<T>) => void
+  ): Promise<Subscription> {
+    if (!this.subscriptions) {
+      this.subscriptions = new SubscriptionManager(this, this.endpoint, this.subscriptionOptions);
+    }
+    return this.subscriptions.subscribe(topic, listener);
+  }
+
+  /**
+   * Close the WebSocket connection and drop all subscriptions
+   */
+  closeSubscriptions(): void {
+    this.subscriptions?.close();
+  }
+
   // ============================================================================
   // Health & Status
   // ============================================================================
@@ -161,9 +749,9 @@ export class TesseraClient {
   /**
    * Check if the node is healthy
    */
-  async isHealthy(): Promise<boolean> {
+  async isHealthy(options?: RequestOptions): Promise<boolean> {
     try {
-      await this.get<{ status: string }>('/health');
+      await this.get<{ status: string }>('/health', options);
       return true;
     } catch {
       return false;
@@ -173,39 +761,54 @@ export class TesseraClient {
   /**
    * Get network status
    */
-  async getNetworkStatus(): Promise<NetworkStatus> {
+  async getNetworkStatus(options?: RequestOptions): Promise<NetworkStatus> {
     const response = await this.get<{
       current_height: number;
       mempool_size: number;
-      total_transactions: number;
+      total_transactions: number | string;
       state_root: string;
       chain_id?: string;
       network_id?: string;
       genesis_hash?: string;
-    }>('/network_status');
+      latest_block_time?: number;
+      peer_count?: number;
+      syncing?: boolean;
+    }>('/network_status', options);
 
     return {
-      chainId: response.chain_id ?? 'unknown',
-      networkId: response.network_id ?? '',
-      genesisHash: response.genesis_hash ?? '',
+      chainId: response.chain_id,
+      networkId: response.network_id,
+      genesisHash: response.genesis_hash,
       blockHeight: BigInt(response.current_height),
-      blockTime: BigInt(Math.floor(Date.now() / 1000)), // Not provided by API
-      peerCount: 0, // Not provided by this endpoint
-      isSyncing: false, // Not provided by this endpoint
+      mempoolSize: Number(response.mempool_size),
+      totalTransactions: BigInt(response.total_transactions),
+      stateRoot: response.state_root,
+      blockTime:
+        response.latest_block_time !== undefined ? BigInt(response.latest_block_time) : undefined,
+      peerCount: response.peer_count !== undefined ? Number(response.peer_count) : undefined,
+      isSyncing: response.syncing,
     };
   }
 
+  /**
+   * Derive whether the node is syncing from its latest block timestamp and,
+   * optionally, the heights reported by peer nodes
+   */
+  async getSyncStatus(options?: SyncStatusOptions): Promise<SyncStatus> {
+    return getSyncStatus(this, options);
+  }
+
   /**
    * Get network identity (chain_id, network_id, genesis_hash)
    * Used for verifying connection to correct network
    */
-  async getNetworkIdentity(): Promise<NetworkIdentity> {
+  async getNetworkIdentity(options?: RequestOptions): Promise<NetworkIdentity> {
     const response = await this.get<{
       chain_id: string;
       network_id: string;
       genesis_hash: string;
       genesis_time: number;
-    }>('/network_identity');
+    }>('/network_identity', options);
 
     return {
       chainId: response.chain_id,
@@ -215,10 +818,36 @@ export class TesseraClient {
     };
   }
 
+  /**
+   * Check the node against `ClientOptions.expectedIdentity` (no-op when not set).
+   * The node is queried once; later calls reuse the outcome.
+   * @throws TesseraError with ErrorCode.ChainMismatch when the node differs
+   */
+  async verifyNetworkIdentity(options?: RequestOptions): Promise<void> {
+    await this.identityGuard?.verify(() => this.getNetworkIdentity(options));
+  }
+
+  /**
+   * Refuse to submit a transaction signed for another chain or to a node on another network
+   */
+  private async verifyTransactionNetwork(tx: unknown, options?: RequestOptions): Promise<void> {
+    if (!this.identityGuard) return;
+
+    const chainId = (tx as Partial<TransactionJson> | null)?.chain_id;
+    if (chainId !== undefined) {
+      assertNetworkIdentity(
+        { chainId: this.identityGuard.expected.chainId },
+        { chainId },
+        'Transaction'
+      );
+    }
+    await this.verifyNetworkIdentity(options);
+  }
+
   /**
    * Get chain parameters
    */
-  async getChainParams(): Promise<ChainParams> {
+  async getChainParams(options?: StateQueryOptions): Promise<ChainParams> {
     const response = await this.get<{
       max_validators: number;
       min_validator_stake: string;
@@ -230,7 +859,9 @@ export class TesseraClient {
       quorum: number;
       threshold: number;
       veto_threshold: number;
-    }>('/chain_params');
+      height?: number;
+    }>('/chain_params', options, heightQuery(options));
+    assertStateHeight('/chain_params', response.height, options);
 
     return {
       maxValidators: response.max_validators,
@@ -253,13 +884,15 @@ export class TesseraClient {
   /**
    * Get account information
    */
-  async getAccount(address: string): Promise<Account> {
+  async getAccount(address: string, options?: StateQueryOptions): Promise<Account> {
     const response = await this.post<{
       address: string;
       balance: number;
       nonce: number;
       exists: boolean;
-    }>('/get_account', { address });
+      height?: number;
+    }>('/get_account', { address }, options, heightQuery(options));
+    assertStateHeight('/get_account', response.height, options);
 
     return {
       address: response.address,
@@ -272,16 +905,16 @@ export class TesseraClient {
   /**
    * Get account balance
    */
-  async getBalance(address: string): Promise<bigint> {
-    const account = await this.getAccount(address);
+  async getBalance(address: string, options?: StateQueryOptions): Promise<bigint> {
+    const account = await this.getAccount(address, options);
     return account.balance;
   }
 
   /**
    * Get account nonce (for transaction creation)
    */
-  async getNonce(address: string): Promise<bigint> {
-    const account = await this.getAccount(address);
+  async getNonce(address: string, options?: StateQueryOptions): Promise<bigint> {
+    const account = await this.getAccount(address, options);
     return account.nonce;
   }
 
@@ -292,11 +925,43 @@ export class TesseraClient {
   /**
    * Submit a signed transaction
    */
-  async submitTransaction(tx: TransactionJson): Promise<TransactionReceipt> {
-    const response = await this.rpc<{
-      hash: string;
-      status: string;
-    }>('tx_submit', tx);
+  async submitTransaction(
+    tx: TransactionJson,
+    options?: RequestOptions
+  ): Promise<TransactionReceipt> {
+    await this.verifyTransactionNetwork(tx, options);
+
+    const attempts = { count: 0 };
+    let response: { hash: string; status: string };
+    try {
+      response = await this.rpc('tx_submit', tx, { priority: 'high', ...options, attempts });
+    } catch (error) {
+      // A retried submission is rejected as a duplicate when an earlier
+      // attempt reached the node. Only transactions carrying their hash are
+      // retried (see isIdempotentRpc).
+      const duplicate =
+        error instanceof TesseraError && error.code === ErrorCode.DuplicateTransaction;
+      if (!duplicate || attempts.count < 2) throw error;
+      response = { hash: tx.hash!, status: 'pending' };
+    }
+    return this.acknowledgeSubmission(tx, response);
+  }
+
+  /**
+   * Turn a tx_submit result into a receipt, checking the node's hash
+   * (shared by submitTransaction and batches)
+   */
+  private acknowledgeSubmission(
+    tx: TransactionJson,
+    response: { hash: string; status: string }
+  ): TransactionReceipt {
+    if (this.verifyHashes) assertTransactionHash(tx, response.hash);
+    this.instrumentation.emit({
+      type: 'transaction:submitted',
+      endpoint: this.endpoint,
+      hash: response.hash,
+      status: response.status,
+    });
 
     return {
       hash: response.hash,
@@ -308,19 +973,99 @@ export class TesseraClient {
   /**
    * Get transaction by hash
    */
-  async getTransaction(hash: string): Promise<TransactionJson | null> {
+  async getTransaction(hash: string, options?: RequestOptions): Promise<TransactionJson | null> {
     try {
       const response = await this.post<{
         transaction: TransactionJson;
         in_mempool: boolean;
-      }>('/get_transaction', { tx_hash: hash });
+      }>('/get_transaction', { tx_hash: hash }, options);
       return response.transaction;
     } catch (error) {
-      if (error instanceof TesseraError && error.code === ErrorCode.RpcError) {
+      if (error instanceof TesseraError && error.code === ErrorCode.NotFound) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Explain a `ErrorCode.HashMismatch` by fetching the node's copy of the
+   * transaction and comparing it field by field with the submitted one
+   *
+   * @example
+   * ```typescript
+   * try {
+   *   await client.submitTransaction(tx);
+   * } catch (error) {
+   *   if (error instanceof TesseraError && error.code === ErrorCode.HashMismatch) {
+   *     const { nodeHash } = error.details as HashMismatchDetails;
+   *     console.log(await client.diagnoseHashMismatch(tx, nodeHash));
+   *   }
+   * }
+   * ```
+   */
+  async diagnoseHashMismatch(
+    tx: TransactionJson,
+    nodeHash: string,
+    options?: RequestOptions
+  ): Promise<HashMismatchDiagnosis> {
+    const remote = await this.getTransaction(nodeHash, options);
+    return diagnoseHashMismatch(tx, nodeHash, remote);
+  }
+
+  /**
+   * Get the receipt of a transaction, including the block it was committed in
+   * and, unless `proof` is false, a Merkle inclusion proof against the block's
+   * transactionsRoot
+   */
+  async getTransactionReceipt(
+    hash: string,
+    options: ReceiptOptions = {}
+  ): Promise<TransactionReceipt | null> {
+    const { proof = true, ...requestOptions } = options;
+    let response: {
+      transaction: TransactionJson;
+      in_mempool: boolean;
+      block_height?: number;
+      block_hash?: string;
+    };
+    try {
+      response = await this.post('/get_transaction', { tx_hash: hash }, requestOptions);
+    } catch (error) {
+      if (error instanceof TesseraError && error.code === ErrorCode.NotFound) {
         return null;
       }
       throw error;
     }
+
+    const fee = BigInt(response.transaction.fee ?? 0);
+    if (response.in_mempool) {
+      return { hash, status: 'pending', fee, inMempool: true };
+    }
+
+    const receipt: TransactionReceipt = {
+      hash,
+      status: 'confirmed',
+      fee,
+      inMempool: false,
+      blockHeight: response.block_height !== undefined ? BigInt(response.block_height) : undefined,
+      blockHash: response.block_hash,
+    };
+    if (!proof) return receipt;
+
+    const block = receipt.blockHash
+      ? await this.getBlockByHash(receipt.blockHash, requestOptions)
+      : receipt.blockHeight !== undefined
+        ? await this.getBlock(receipt.blockHeight, requestOptions)
+        : null;
+    if (!block) return receipt;
+
+    return {
+      ...receipt,
+      blockHeight: block.header.height,
+      blockHash: block.hash,
+      ...proveInclusion(block, hash),
+    };
   }
 
   /**
@@ -328,17 +1073,85 @@ export class TesseraClient {
    */
   async getTransactions(
     address: string,
-    options?: { limit?: number; offset?: number }
+    options?: { limit?: number; offset?: number } & TransactionQuery & RequestOptions
   ): Promise<TransactionJson[]> {
-    const response = await this.post<{ transactions: TransactionJson[] }>('/transactions', {
-      address,
-      limit: options?.limit ?? 50,
-      offset: options?.offset ?? 0,
-    });
+    const response = await this.post<{ transactions: TransactionJson[] }>(
+      '/transactions',
+      {
+        address,
+        limit: options?.limit ?? 50,
+        offset: options?.offset ?? 0,
+        ...(options?.direction && { order: options.direction }),
+        ...(options?.fromHeight !== undefined && { from_height: Number(options.fromHeight) }),
+        ...(options?.toHeight !== undefined && { to_height: Number(options.toHeight) }),
+      },
+      options
+    );
 
     return response.transactions;
   }
 
+  /**
+   * Iterate over an account's transactions, paging transparently
+   */
+  iterateTransactions(
+    address: string,
+    options?: IterateTransactionsOptions
+  ): AsyncIterable<TransactionJson> {
+    return iterateTransactions(this, address, options);
+  }
+
+  // ============================================================================
+  // Offline Signing
+  // ============================================================================
+
+  /**
+   * Prepare an unsigned envelope for an offline signer, filling in the chain ID
+   * and the sender's next nonce
+   *
+   * @example
+   * ```typescript
+   * const envelope = await client.createEnvelope(coldAddress, (builder, nonce) =>
+   *   builder.buildTransfer({ to, amount: 1_000_000n, nonce })
+   * );
+   * const qr = encodeEnvelope(envelope);
+   * ```
+   */
+  async createEnvelope(
+    from: string,
+    build: (builder: TransactionBuilder, nonce: bigint) => Transaction,
+    options: CreateEnvelopeOptions = {}
+  ): Promise<TransactionEnvelope> {
+    const chainId =
+      options.chainId ??
+      this.identityGuard?.expected.chainId ??
+      (await this.getNetworkIdentity(options)).chainId;
+    const nonce = options.nonce ?? (await this.getNonce(from, options)) + 1n;
+
+    const tx = build(new TransactionBuilder(from, chainId), nonce);
+    return createEnvelope(tx, options);
+  }
+
+  /**
+   * Submit a signed envelope after checking its signature
+   * @throws TesseraError with ErrorCode.InvalidSignature when unsigned or wrongly signed
+   */
+  async broadcastEnvelope(
+    envelope: string | TransactionEnvelope,
+    options?: RequestOptions
+  ): Promise<TransactionReceipt> {
+    const { transaction } = decodeEnvelope(envelope);
+    const verification = verifyTransaction(transaction);
+    if (!verification.valid) {
+      throw new TesseraError(
+        ErrorCode.InvalidSignature,
+        `Envelope cannot be broadcast: ${verification.message}`,
+        { reason: verification.reason }
+      );
+    }
+    return this.submitTransaction(transaction, options);
+  }
+
   // ============================================================================
   // Blocks
   // ============================================================================
@@ -346,35 +1159,68 @@ export class TesseraClient {
   /**
    * Get block by height
    */
-  async getBlock(height: bigint): Promise<Block | null> {
+  async getBlock(height: bigint, options?: RequestOptions): Promise<Block | null> {
+    return this.fetchBlock({ height: Number(height) }, options);
+  }
+
+  /**
+   * Get block by hash
+   */
+  async getBlockByHash(hash: string, options?: RequestOptions): Promise<Block | null> {
+    return this.fetchBlock({ hash }, options);
+  }
+
+  /**
+   * Get every block from `fromHeight` to `toHeight` (inclusive), fetched in parallel.
+   * The result is indexed by `height - fromHeight`; heights without a block are null.
+   */
+  async getBlocks(
+    fromHeight: bigint,
+    toHeight: bigint,
+    options?: BlockRangeOptions
+  ): Promise<(Block | null)[]> {
+    const blocks: (Block | null)[] = [];
+    for await (const { block } of this.iterateBlocks(fromHeight, toHeight, options)) {
+      blocks.push(block);
+    }
+    return blocks;
+  }
+
+  /**
+   * Iterate over blocks from `fromHeight` to `toHeight` (inclusive) in order,
+   * prefetching up to `concurrency` heights in parallel
+   */
+  iterateBlocks(
+    fromHeight: bigint,
+    toHeight: bigint,
+    options: BlockRangeOptions = {}
+  ): AsyncIterable<BlockRangeItem> {
+    const { retries = 2, ...rangeOptions } = options;
+    return fetchBlockRange(
+      (height, requestOptions) =>
+        this.fetchBlock(
+          { height: Number(height) },
+          { ...requestOptions, maxAttempts: retries + 1 }
+        ),
+      fromHeight,
+      toHeight,
+      rangeOptions
+    );
+  }
+
+  /**
+   * Get a block, returning null when the node has no such block
+   */
+  private async fetchBlock(
+    query: { height: number } | { hash: string },
+    options?: RequestContext
+  ): Promise<Block | null> {
     try {
-      const response = await this.post<{
-        block: {
-          height: number;
-          timestamp: number;
-          prev_hash: string;
-          merkle_root: string;
-          proposer: string;
-          transactions: TransactionJson[];
-          hash: string;
-          signature?: string;
-        };
-      }>('/get_block', { height: Number(height) });
+      const response = await this.post<{ block: RawBlock }>('/get_block', query, options);
 
-      return {
-        header: {
-          height: BigInt(response.block.height),
-          timestamp: BigInt(response.block.timestamp),
-          previousHash: response.block.prev_hash,
-          transactionsRoot: response.block.merkle_root,
-          stateRoot: '', // Not provided by API
-          proposer: response.block.proposer,
-        },
-        transactions: response.block.transactions,
-        hash: response.block.hash,
-      };
+      return parseBlock(response.block);
     } catch (error) {
-      if (error instanceof TesseraError && error.code === ErrorCode.RpcError) {
+      if (error instanceof TesseraError && error.code === ErrorCode.NotFound) {
         return null;
       }
       throw error;
@@ -384,9 +1230,17 @@ export class TesseraClient {
   /**
    * Get latest block
    */
-  async getLatestBlock(): Promise<Block | null> {
-    const status = await this.getNetworkStatus();
-    return this.getBlock(status.blockHeight);
+  async getLatestBlock(options?: RequestOptions): Promise<Block | null> {
+    const status = await this.getNetworkStatus(options);
+    return this.getBlock(status.blockHeight, options);
+  }
+
+  /**
+   * Stream blocks by polling the node, starting at `fromHeight` (default: current height).
+   * Every height is yielded exactly once and in order.
+   */
+  watchBlocks(options?: WatchBlocksOptions): AsyncIterable<Block> {
+    return watchBlocks(this, options);
   }
 
   // ============================================================================
@@ -396,7 +1250,7 @@ export class TesseraClient {
   /**
    * Get all validators
    */
-  async getValidators(): Promise<Validator[]> {
+  async getValidators(options?: StateQueryOptions): Promise<Validator[]> {
     const response = await this.get<{
       validators: {
         address: string;
@@ -404,7 +1258,9 @@ export class TesseraClient {
         is_active: boolean;
         commission: number;
       }[];
-    }>('/validators');
+      height?: number;
+    }>('/validators', options, heightQuery(options));
+    assertStateHeight('/validators', response.height, options);
 
     return response.validators.map((v) => ({
       address: v.address,
@@ -417,8 +1273,8 @@ export class TesseraClient {
   /**
    * Get validator by address
    */
-  async getValidator(address: string): Promise<Validator | null> {
-    const validators = await this.getValidators();
+  async getValidator(address: string, options?: StateQueryOptions): Promise<Validator | null> {
+    const validators = await this.getValidators(options);
     return validators.find((v) => v.address === address) ?? null;
   }
 
@@ -429,7 +1285,7 @@ export class TesseraClient {
   /**
    * Get all proposals
    */
-  async getProposals(): Promise<Proposal[]> {
+  async getProposals(options?: StateQueryOptions): Promise<Proposal[]> {
     const response = await this.get<{
       proposals: {
         id: string;
@@ -446,7 +1302,9 @@ export class TesseraClient {
         votes_abstain: string;
         votes_veto: string;
       }[];
-    }>('/proposals');
+      height?: number;
+    }>('/proposals', options, heightQuery(options));
+    assertStateHeight('/proposals', response.height, options);
 
     return response.proposals.map((p) => ({
       id: BigInt(p.id),
@@ -468,7 +1326,7 @@ export class TesseraClient {
   /**
    * Get proposal by ID
    */
-  async getProposal(id: bigint): Promise<Proposal | null> {
+  async getProposal(id: bigint, options?: RequestOptions): Promise<Proposal | null> {
     try {
       const response = await this.post<{
         id: string;
@@ -484,7 +1342,7 @@ export class TesseraClient {
         votes_no: string;
         votes_abstain: string;
         votes_veto: string;
-      }>('/get_proposal', { proposal_id: Number(id) });
+      }>('/get_proposal', { proposal_id: Number(id) }, options);
 
       return {
         id: BigInt(response.id),
@@ -502,7 +1360,7 @@ export class TesseraClient {
         votesVeto: BigInt(response.votes_veto),
       };
     } catch (error) {
-      if (error instanceof TesseraError && error.code === ErrorCode.RpcError) {
+      if (error instanceof TesseraError && error.code === ErrorCode.NotFound) {
         return null;
       }
       throw error;
@@ -516,16 +1374,16 @@ export class TesseraClient {
   /**
    * Get pending transactions in mempool
    */
-  async getPendingTransactions(): Promise<TransactionJson[]> {
+  async getPendingTransactions(options?: RequestOptions): Promise<TransactionJson[]> {
     // /mempool returns an array of transactions directly
-    return await this.get<TransactionJson[]>('/mempool');
+    return await this.get<TransactionJson[]>('/mempool', options);
   }
 
   /**
    * Get mempool statistics
    */
-  async getMempoolStats(): Promise<{ count: number; totalFees: bigint }> {
-    const transactions = await this.getPendingTransactions();
+  async getMempoolStats(options?: RequestOptions): Promise<{ count: number; totalFees: bigint }> {
+    const transactions = await this.getPendingTransactions(options);
     const totalFees = transactions.reduce((sum, tx) => sum + BigInt(tx.fee ?? 0), 0n);
 
     return {
@@ -0,0 +1,175 @@
+/**
+ * Observability hooks: structured events, logging and tracing
+ */
+
+import { TesseraError } from '../types/index.js';
+
+/**
+ * Fields shared by request events
+ */
+export interface RequestEventInfo {
+  endpoint: string;
+  method: 'GET' | 'POST';
+  path: string;
+  /** JSON-RPC method for /rpc calls ('batch' for batches) */
+  rpcMethod?: string;
+  /** Attempt number (1-based) */
+  attempt: number;
+}
+
+/**
+ * Structured event emitted by TesseraClient and Wallet
+ */
+export type InstrumentationEvent =
+  | ({ type: 'request:start' } & RequestEventInfo)
+  | ({
+      type: 'request:end';
+      durationMs: number;
+      /** HTTP status, when a response was received */
+      status?: number;
+      error?: TesseraError;
+    } & RequestEventInfo)
+  | ({ type: 'request:retry'; delayMs: number; error: TesseraError } & RequestEventInfo)
+  | { type: 'transaction:submitted'; endpoint: string; hash: string; status: string }
+  | {
+      type: 'transaction:confirmed';
+      hash: string;
+      /** Time from submission to observed confirmation */
+      latencyMs: number;
+      blockHeight?: bigint;
+    };
+
+/**
+ * Logger adapter; `console` satisfies it
+ */
+export interface Logger {
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+}
+
+/**
+ * Span attribute value
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Subset of the OpenTelemetry Span API used by the SDK
+ */
+export interface SpanLike {
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): unknown;
+  end(): void;
+}
+
+/**
+ * Subset of the OpenTelemetry Tracer API used by the SDK; an OpenTelemetry
+ * `Tracer` can be passed as-is
+ */
+export interface TracerLike {
+  startSpan(name: string, options?: { attributes?: Record<string, SpanAttributeValue> }): SpanLike;
+}
+
+/**
+ * Instrumentation configuration for TesseraClient and Wallet
+ */
+export interface InstrumentationOptions {
+  /** Called synchronously for every event */
+  onEvent?: (event: InstrumentationEvent) => void;
+  /** Receives one log line per event */
+  logger?: Logger;
+  /** Creates a span per HTTP attempt */
+  tracer?: TracerLike;
+}
+
+/** OpenTelemetry SpanStatusCode.ERROR */
+const SPAN_STATUS_ERROR = 2;
+
+const NOOP_SPAN: SpanLike = {
+  setAttribute: () => undefined,
+  setStatus: () => undefined,
+  recordException: () => undefined,
+  end: () => undefined,
+};
+
+/**
+ * Dispatches events to the configured hooks. Every hook is optional and hook
+ * failures never affect the instrumented call.
+ */
+export class Instrumentation {
+  constructor(private readonly options: InstrumentationOptions = {}) {}
+
+  /**
+   * Emit an event to the event hook and the logger
+   */
+  emit(event: InstrumentationEvent): void {
+    try {
+      this.options.onEvent?.(event);
+      if (this.options.logger) log(this.options.logger, event);
+    } catch {
+      // Instrumentation must never break SDK calls
+    }
+  }
+
+  /**
+   * Start a span, or a no-op span when no tracer is configured
+   */
+  startSpan(name: string, attributes: Record<string, SpanAttributeValue | undefined>): SpanLike {
+    if (!this.options.tracer) return NOOP_SPAN;
+
+    const defined = Object.fromEntries(
+      Object.entries(attributes).filter(([, value]) => value !== undefined)
+    ) as Record<string, SpanAttributeValue>;
+    try {
+      return this.options.tracer.startSpan(name, { attributes: defined });
+    } catch {
+      return NOOP_SPAN;
+    }
+  }
+
+  /**
+   * Record the outcome of a request on its span and end it
+   */
+  endSpan(span: SpanLike, status: number | undefined, error?: TesseraError): void {
+    try {
+      if (status !== undefined) span.setAttribute('http.response.status_code', status);
+      if (error) {
+        span.setAttribute('tessera.error_code', error.code);
+        span.recordException(error);
+        span.setStatus({ code: SPAN_STATUS_ERROR, message: error.message });
+      }
+      span.end();
+    } catch {
+      // Instrumentation must never break SDK calls
+    }
+  }
+}
+
+function log(logger: Logger, event: InstrumentationEvent): void {
+  const fields: Record<string, unknown> = { ...event };
+  delete fields.type;
+
+  switch (event.type) {
+    case 'request:start':
+      logger.debug(`${event.method} ${event.path} started`, fields);
+      break;
+    case 'request:end':
+      if (event.error) {
+        logger.warn(`${event.method} ${event.path} failed: ${event.error.message}`, fields);
+      } else {
+        logger.debug(`${event.method} ${event.path} completed in ${event.durationMs}ms`, fields);
+      }
+      break;
+    case 'request:retry':
+      logger.warn(`Retrying ${event.method} ${event.path} in ${event.delayMs}ms`, fields);
+      break;
+    case 'transaction:submitted':
+      logger.info(`Transaction ${event.hash} submitted`, fields);
+      break;
+    case 'transaction:confirmed':
+      logger.info(`Transaction ${event.hash} confirmed after ${event.latencyMs}ms`, fields);
+      break;
+  }
+}
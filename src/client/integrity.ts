@@ -0,0 +1,63 @@
+/**
+ * Cross-checking transaction hashes reported by the node
+ */
+
+import { TransactionJson, TesseraError, ErrorCode } from '../types/index.js';
+import { calculateHash, jsonToTransaction } from '../transaction/index.js';
+import { diffTransactions, TransactionFieldDiff } from '../transaction/codec.js';
+
+/**
+ * Details attached to `ErrorCode.HashMismatch`
+ */
+export interface HashMismatchDetails {
+  localHash: string;
+  nodeHash: string;
+}
+
+/**
+ * Outcome of comparing a submitted transaction with the node's copy
+ *
+ * - `fields`: the node stored different field values (e.g. a proxy rewrote the request)
+ * - `codec`: the fields match but the node serializes them differently
+ * - `unknown`: the node's copy could not be fetched
+ */
+export interface HashMismatchDiagnosis extends HashMismatchDetails {
+  cause: 'fields' | 'codec' | 'unknown';
+  /** Serialized fields that differ between the local and node copies */
+  fields: TransactionFieldDiff[];
+  /** The node's copy of the transaction, when available */
+  remote: TransactionJson | null;
+}
+
+/**
+ * Throw `ErrorCode.HashMismatch` when the node reports a different hash
+ * than the one computed locally
+ */
+export function assertTransactionHash(tx: TransactionJson, nodeHash: string): void {
+  const localHash = calculateHash(jsonToTransaction(tx));
+  if (localHash !== nodeHash.toLowerCase()) {
+    throw new TesseraError(
+      ErrorCode.HashMismatch,
+      `Node reported transaction hash ${nodeHash}, computed ${localHash}`,
+      { localHash, nodeHash } satisfies HashMismatchDetails
+    );
+  }
+}
+
+/**
+ * Compare a submitted transaction with the node's copy stored under `nodeHash`
+ */
+export function diagnoseHashMismatch(
+  tx: TransactionJson,
+  nodeHash: string,
+  remote: TransactionJson | null
+): HashMismatchDiagnosis {
+  const local = jsonToTransaction(tx);
+  const localHash = calculateHash(local);
+  if (!remote) {
+    return { localHash, nodeHash, cause: 'unknown', fields: [], remote };
+  }
+
+  const fields = diffTransactions(local, jsonToTransaction(remote));
+  return { localHash, nodeHash, cause: fields.length > 0 ? 'fields' : 'codec', fields, remote };
+}
@@ -0,0 +1,54 @@
+/**
+ * Request/response middleware for TesseraClient
+ */
+
+import type { Transport, TransportRequest, TransportResponse } from './transport.js';
+
+/**
+ * Per-request state shared by the middleware chain
+ */
+export interface MiddlewareContext {
+  /** Outgoing request; middleware may replace or mutate it before calling next() */
+  request: TransportRequest;
+  /** JSON-RPC method for /rpc calls ("batch" for batch requests) */
+  rpcMethod?: string;
+  /** Attempt number under the retry policy (1-based) */
+  attempt: number;
+}
+
+/**
+ * Middleware wrapping every request sent by TesseraClient.
+ *
+ * Call `next()` to continue down the chain (it may be called more than once,
+ * e.g. to replay a request after refreshing credentials), or return a response
+ * without calling it to short-circuit. Throwing a `TesseraError` surfaces it to
+ * the caller unchanged.
+ *
+ * @example
+ * const auth: Middleware = async (ctx, next) => {
+ *   ctx.request.headers = { ...ctx.request.headers, Authorization: `Bearer ${token}` };
+ *   return next();
+ * };
+ */
+export type Middleware = (
+  context: MiddlewareContext,
+  next: () => Promise<TransportResponse>
+) => Promise<TransportResponse>;
+
+/**
+ * Run a request through the middleware chain and finally the transport
+ */
+export function runMiddleware(
+  middleware: readonly Middleware[],
+  context: MiddlewareContext,
+  transport: Transport
+): Promise<TransportResponse> {
+  const dispatch = (index: number): Promise<TransportResponse> => {
+    if (index === middleware.length) {
+      return transport.request(context.request);
+    }
+    return middleware[index](context, () => dispatch(index + 1));
+  };
+
+  return dispatch(0);
+}
@@ -0,0 +1,293 @@
+/**
+ * Multi-endpoint client pool with health-based routing and failover
+ */
+
+import { TesseraClient, ClientOptions } from './index.js';
+import { getErrorStatus } from './retry.js';
+import { TesseraError, ErrorCode } from '../types/index.js';
+
+/**
+ * Pool configuration options
+ */
+export interface PoolOptions extends ClientOptions {
+  /** Interval between health probes in milliseconds when started (default: 15000) */
+  healthCheckInterval?: number;
+  /** Expected genesis hash; when omitted the majority of nodes decides */
+  genesisHash?: string;
+}
+
+/**
+ * Health snapshot of a single node in the pool
+ */
+export interface PoolNodeStatus {
+  endpoint: string;
+  /** Node answered the last probe and has not failed since */
+  healthy: boolean;
+  /** Current height reported by /network_status */
+  height: bigint | null;
+  /** Genesis hash reported by /network_identity */
+  genesisHash: string | null;
+  /** Node reports a different genesis hash than the pool and is never used */
+  genesisMismatch: boolean;
+  /** Duration of the last successful probe in milliseconds */
+  latency: number | null;
+  /** Time of the last probe (Unix milliseconds) */
+  lastChecked: number | null;
+  /** Message of the last error seen for this node */
+  lastError: string | null;
+}
+
+/**
+ * Options for a single pooled call
+ */
+export interface ExecuteOptions {
+  /** Try the next node when a node fails with a transient error (default: true) */
+  failover?: boolean;
+}
+
+interface PoolNode {
+  client: TesseraClient;
+  status: PoolNodeStatus;
+}
+
+/**
+ * Check whether an error indicates a node problem rather than a bad request
+ */
+function isNodeFailure(error: unknown): boolean {
+  if (!(error instanceof TesseraError)) return false;
+  if (error.code === ErrorCode.NetworkError || error.code === ErrorCode.Timeout) return true;
+  const status = getErrorStatus(error);
+  return status !== undefined && status >= 500;
+}
+
+/**
+ * Pool of Tessera nodes that routes calls to the healthiest, most up-to-date node
+ *
+ * @example
+ * const pool = new TesseraClientPool(['https://a.example', 'https://b.example']);
+ * const account = await pool.execute((client) => client.getAccount(address));
+ */
+export class TesseraClientPool {
+  private readonly nodes: PoolNode[];
+  private readonly healthCheckInterval: number;
+  private genesisHash: string | null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private refreshing: Promise<void> | null = null;
+  private probed = false;
+
+  /**
+   * Create a new pool
+   * @param endpoints - RPC endpoint URLs
+   * @param options - Pool options (client options are applied to every node)
+   */
+  constructor(endpoints: string[], options: PoolOptions = {}) {
+    if (endpoints.length === 0) {
+      throw new TesseraError(
+        ErrorCode.NetworkError,
+        'TesseraClientPool requires at least one endpoint'
+      );
+    }
+
+    const { healthCheckInterval, genesisHash, ...clientOptions } = options;
+    this.healthCheckInterval = healthCheckInterval ?? 15000;
+    this.genesisHash = genesisHash ?? null;
+    this.nodes = endpoints.map((endpoint) => ({
+      client: new TesseraClient(endpoint, clientOptions),
+      status: {
+        endpoint,
+        healthy: false,
+        height: null,
+        genesisHash: null,
+        genesisMismatch: false,
+        latency: null,
+        lastChecked: null,
+        lastError: null,
+      },
+    }));
+  }
+
+  // ============================================================================
+  // Health Probing
+  // ============================================================================
+
+  /**
+   * Start periodic health probes
+   */
+  start(): this {
+    if (this.timer) return this;
+
+    void this.refresh();
+    this.timer = setInterval(() => void this.refresh(), this.healthCheckInterval);
+    // Don't keep the process alive just for health probes
+    (this.timer as { unref?: () => void }).unref?.();
+    return this;
+  }
+
+  /**
+   * Stop periodic health probes
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Probe every node once (/health, /network_status and /network_identity)
+   */
+  async refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.probeAll().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async probeAll(): Promise<void> {
+    await Promise.all(this.nodes.map((node) => this.probe(node)));
+    this.probed = true;
+    this.checkGenesis();
+  }
+
+  private async probe(node: PoolNode): Promise<void> {
+    const startTime = Date.now();
+    node.status.lastChecked = startTime;
+
+    try {
+      if (!(await node.client.isHealthy())) {
+        throw new Error('Health check failed');
+      }
+
+      const [status, identity] = await Promise.all([
+        node.client.getNetworkStatus(),
+        node.client.getNetworkIdentity(),
+      ]);
+
+      node.status.healthy = true;
+      node.status.height = status.blockHeight;
+      node.status.genesisHash = identity.genesisHash;
+      node.status.latency = Date.now() - startTime;
+      node.status.lastError = null;
+    } catch (error) {
+      node.status.healthy = false;
+      node.status.latency = null;
+      node.status.lastError = (error as Error).message;
+    }
+  }
+
+  /**
+   * Mark nodes whose genesis hash differs from the pool's genesis hash.
+   * Without an expected hash, the first majority seen becomes the pool's hash.
+   */
+  private checkGenesis(): void {
+    if (this.genesisHash === null) {
+      const counts = new Map<string, number>();
+      for (const { status } of this.nodes) {
+        if (status.genesisHash !== null) {
+          counts.set(status.genesisHash, (counts.get(status.genesisHash) ?? 0) + 1);
+        }
+      }
+
+      let best: string | null = null;
+      for (const [hash, count] of counts) {
+        if (best === null || count > counts.get(best)!) best = hash;
+      }
+      this.genesisHash = best;
+    }
+
+    for (const { status } of this.nodes) {
+      status.genesisMismatch =
+        status.genesisHash !== null && status.genesisHash !== this.genesisHash;
+    }
+  }
+
+  // ============================================================================
+  // Routing
+  // ============================================================================
+
+  /**
+   * Get a snapshot of every node's health
+   */
+  getStatus(): PoolNodeStatus[] {
+    return this.nodes.map((node) => ({ ...node.status }));
+  }
+
+  /**
+   * Get the genesis hash the pool is pinned to (null before the first probe)
+   */
+  getGenesisHash(): string | null {
+    return this.genesisHash;
+  }
+
+  /**
+   * Get the client of the best available node
+   */
+  async getClient(): Promise<TesseraClient> {
+    const [best] = await this.rankedNodes();
+    return best.client;
+  }
+
+  /**
+   * Run a call against the best node, failing over to the next one on node failures
+   */
+  async execute<T>(
+    fn: (client: TesseraClient) => Promise<T>,
+    options: ExecuteOptions = {}
+  ): Promise<T> {
+    const candidates = await this.rankedNodes();
+    const attempts = options.failover === false ? candidates.slice(0, 1) : candidates;
+    let lastError: unknown;
+
+    for (const node of attempts) {
+      try {
+        return await fn(node.client);
+      } catch (error) {
+        if (!isNodeFailure(error)) throw error;
+
+        node.status.healthy = false;
+        node.status.lastError = (error as Error).message;
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Usable nodes ordered by height (highest first), then probe latency
+   */
+  private async rankedNodes(): Promise<PoolNode[]> {
+    let ranked = this.probed ? this.usableNodes() : [];
+
+    // Re-probe when nothing is usable, so nodes can recover without start()
+    if (ranked.length === 0) {
+      await this.refresh();
+      ranked = this.usableNodes();
+    }
+
+    if (ranked.length === 0) {
+      throw new TesseraError(
+        ErrorCode.NetworkError,
+        'No healthy Tessera nodes available',
+        this.getStatus()
+      );
+    }
+
+    return ranked;
+  }
+
+  private usableNodes(): PoolNode[] {
+    return this.nodes
+      .filter(({ status }) => status.healthy && !status.genesisMismatch)
+      .sort((a, b) => {
+        const heightA = a.status.height ?? 0n;
+        const heightB = b.status.height ?? 0n;
+        if (heightA !== heightB) return heightA > heightB ? -1 : 1;
+        return (a.status.latency ?? 0) - (b.status.latency ?? 0);
+      });
+  }
+}
+
+export default TesseraClientPool;
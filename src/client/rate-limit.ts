@@ -0,0 +1,173 @@
+/**
+ * Client-side rate limiting and concurrency control
+ */
+
+import { TesseraError, ErrorCode } from '../types/index.js';
+
+/**
+ * Scheduling lane for a request; higher lanes are always dequeued first
+ */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Rate limit configuration for TesseraClient
+ */
+export interface RateLimitOptions {
+  /** Sustained request rate (default: unlimited) */
+  requestsPerSecond?: number;
+  /** Maximum burst above the sustained rate (default: requestsPerSecond, at least 1) */
+  burst?: number;
+  /** Maximum number of requests in flight (default: unlimited) */
+  maxConcurrency?: number;
+  /** How many times a request answered with HTTP 429 is re-queued (default: 3) */
+  maxRateLimitRetries?: number;
+}
+
+interface QueuedTask {
+  run: () => void;
+}
+
+const PRIORITIES: RequestPriority[] = ['high', 'normal', 'low'];
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Token-bucket rate limiter with a bounded number of concurrent requests
+ */
+export class RateLimiter {
+  readonly maxRateLimitRetries: number;
+
+  private readonly rate: number;
+  private readonly burst: number;
+  private readonly maxConcurrency: number;
+  private readonly queues: Record<RequestPriority, QueuedTask[]> = {
+    high: [],
+    normal: [],
+    low: [],
+  };
+
+  private tokens: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private pausedUntil = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: RateLimitOptions = {}) {
+    this.rate = options.requestsPerSecond ?? Infinity;
+    this.burst = options.burst ?? Math.max(1, Number.isFinite(this.rate) ? this.rate : 1);
+    this.maxConcurrency = options.maxConcurrency ?? Infinity;
+    this.maxRateLimitRetries = options.maxRateLimitRetries ?? 3;
+    this.tokens = this.burst;
+  }
+
+  /**
+   * Number of requests waiting for a slot
+   */
+  get pending(): number {
+    return PRIORITIES.reduce((sum, priority) => sum + this.queues[priority].length, 0);
+  }
+
+  /**
+   * Run a task once the rate limit and concurrency limit allow it
+   */
+  schedule<T>(
+    task: () => Promise<T>,
+    priority: RequestPriority = 'normal',
+    signal?: AbortSignal
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new TesseraError(ErrorCode.Aborted, 'Request aborted', signal.reason));
+        return;
+      }
+
+      const queue = this.queues[priority];
+      const onAbort = () => {
+        const index = queue.indexOf(entry);
+        if (index !== -1) {
+          queue.splice(index, 1);
+          reject(new TesseraError(ErrorCode.Aborted, 'Request aborted', signal?.reason));
+        }
+      };
+
+      const entry: QueuedTask = {
+        run: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.active++;
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.pump();
+            });
+        },
+      };
+
+      queue.push(entry);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pump();
+    });
+  }
+
+  /**
+   * Hold every queued request for the given duration (e.g. from a Retry-After header)
+   */
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.pump();
+  }
+
+  private refill(now: number): void {
+    if (!Number.isFinite(this.rate)) {
+      this.tokens = this.burst;
+      return;
+    }
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(this.burst, this.tokens + (elapsed * this.rate) / 1000);
+    this.lastRefill = now;
+  }
+
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.pending > 0 && this.active < this.maxConcurrency) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        this.wake(this.pausedUntil - now);
+        return;
+      }
+
+      this.refill(now);
+      if (this.tokens < 1) {
+        this.wake(Math.ceil(((1 - this.tokens) * 1000) / this.rate));
+        return;
+      }
+
+      const priority = PRIORITIES.find((p) => this.queues[p].length > 0)!;
+      const entry = this.queues[priority].shift()!;
+      this.tokens -= 1;
+      entry.run();
+    }
+  }
+
+  private wake(ms: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pump();
+    }, ms);
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Transaction inclusion proofs
+ */
+
+import { Block, MerkleProof, TesseraError, ErrorCode } from '../types/index.js';
+import { merkleRoot, merkleProof } from '../crypto/hash.js';
+import { calculateHash, jsonToTransaction } from '../transaction/index.js';
+import { bytesToHex, hexToBytes } from '../utils/format.js';
+
+/**
+ * Locate a transaction in a block and prove its inclusion against the
+ * block's transactionsRoot
+ * @throws TesseraError with ErrorCode.InvalidResponse when the transaction is
+ * missing from the block or the transactions do not hash to transactionsRoot
+ */
+export function proveInclusion(block: Block, hash: string): { index: number; proof: MerkleProof } {
+  const hashes = block.transactions.map((tx) =>
+    (tx.hash ?? calculateHash(jsonToTransaction(tx))).toLowerCase()
+  );
+  const index = hashes.indexOf(hash.toLowerCase());
+  if (index === -1) {
+    throw new TesseraError(
+      ErrorCode.InvalidResponse,
+      `Transaction ${hash} is not in block ${block.header.height}`,
+      { hash, blockHeight: block.header.height, blockHash: block.hash }
+    );
+  }
+
+  const leaves = hashes.map(hexToBytes);
+  const root = bytesToHex(merkleRoot(leaves));
+  if (root !== block.header.transactionsRoot.toLowerCase()) {
+    throw new TesseraError(
+      ErrorCode.InvalidResponse,
+      `Transactions of block ${block.header.height} do not match its transactionsRoot`,
+      { expected: block.header.transactionsRoot, actual: root }
+    );
+  }
+
+  return {
+    index,
+    proof: {
+      leaf: hashes[index],
+      index,
+      siblings: merkleProof(leaves, index).map(bytesToHex),
+      root,
+    },
+  };
+}
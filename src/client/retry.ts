@@ -0,0 +1,143 @@
+/**
+ * Retry and backoff policy for TesseraClient requests
+ */
+
+import { TesseraError, ErrorCode } from '../types/index.js';
+
+/**
+ * Information about a retry attempt, passed to `RetryOptions.onRetry`
+ */
+export interface RetryAttempt {
+  /** Attempt number that failed (1-based) */
+  attempt: number;
+  /** Delay in milliseconds before the next attempt */
+  delay: number;
+  /** Error that caused the retry */
+  error: TesseraError;
+  /** HTTP method of the request */
+  method: string;
+  /** Request path (e.g. "/get_account" or "/rpc") */
+  path: string;
+  /** JSON-RPC method, if the request was an RPC call */
+  rpcMethod?: string;
+}
+
+/**
+ * Retry configuration for TesseraClient
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 200) */
+  initialDelay?: number;
+  /** Upper bound for a single backoff delay in milliseconds (default: 5000) */
+  maxDelay?: number;
+  /** Exponential backoff multiplier (default: 2) */
+  multiplier?: number;
+  /** Apply full jitter to backoff delays (default: true) */
+  jitter?: boolean;
+  /** Error codes that are retried (default: NetworkError, Timeout) */
+  retryOnCodes?: ErrorCode[];
+  /** HTTP status codes that are retried (default: 500, 502, 503, 504) */
+  retryOnStatus?: number[];
+  /** Called before each retry */
+  onRetry?: (attempt: RetryAttempt) => void;
+}
+
+/**
+ * Retry options with defaults applied
+ */
+export type ResolvedRetryOptions = Required<Omit<RetryOptions, 'onRetry'>> &
+  Pick<RetryOptions, 'onRetry'>;
+
+/**
+ * Default retry policy
+ */
+export const DEFAULT_RETRY_OPTIONS: ResolvedRetryOptions = {
+  maxAttempts: 3,
+  initialDelay: 200,
+  maxDelay: 5000,
+  multiplier: 2,
+  jitter: true,
+  retryOnCodes: [ErrorCode.NetworkError, ErrorCode.Timeout],
+  retryOnStatus: [500, 502, 503, 504],
+};
+
+/**
+ * Policy used when retries are not configured (single attempt)
+ */
+export const NO_RETRY_OPTIONS: ResolvedRetryOptions = {
+  ...DEFAULT_RETRY_OPTIONS,
+  maxAttempts: 1,
+};
+
+/**
+ * Merge user retry options with defaults
+ */
+export function resolveRetryOptions(options?: RetryOptions): ResolvedRetryOptions {
+  if (!options) return NO_RETRY_OPTIONS;
+
+  const resolved = { ...DEFAULT_RETRY_OPTIONS };
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined) {
+      (resolved as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  // Always make at least one attempt
+  resolved.maxAttempts = Math.max(1, Math.floor(resolved.maxAttempts));
+
+  return resolved;
+}
+
+/**
+ * Get the HTTP status attached to an error, if any
+ */
+export function getErrorStatus(error: TesseraError): number | undefined {
+  const details = error.details as { status?: unknown } | undefined;
+  return typeof details?.status === 'number' ? details.status : undefined;
+}
+
+/**
+ * Check whether an error should be retried under the given policy
+ */
+export function isRetryableError(error: TesseraError, options: ResolvedRetryOptions): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return options.retryOnStatus.includes(status);
+  }
+  return options.retryOnCodes.includes(error.code);
+}
+
+/**
+ * Compute the backoff delay before the next attempt
+ * @param attempt - Attempt number that just failed (1-based)
+ */
+export function computeBackoff(
+  attempt: number,
+  options: ResolvedRetryOptions,
+  random: () => number = Math.random
+): number {
+  const exponential = options.initialDelay * Math.pow(options.multiplier, attempt - 1);
+  const capped = Math.min(options.maxDelay, exponential);
+  return options.jitter ? Math.floor(random() * capped) : capped;
+}
+
+/**
+ * Wait for the given number of milliseconds, resolving early when the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      resolve();
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,171 @@
+/**
+ * Minimal declarative schemas for validating node responses
+ */
+
+import { TesseraError, ErrorCode } from '../types/index.js';
+
+/**
+ * Schema describing the expected shape of a JSON value
+ */
+export type Schema =
+  | { kind: 'string' }
+  | { kind: 'number' }
+  | { kind: 'integer' }
+  | { kind: 'boolean' }
+  | { kind: 'unknown' }
+  | { kind: 'literal'; values: readonly (string | number)[] }
+  | { kind: 'array'; items: Schema }
+  | { kind: 'object'; fields: Record<string, Schema> }
+  | { kind: 'optional'; inner: Schema }
+  | { kind: 'nullable'; inner: Schema }
+  | { kind: 'union'; options: Schema[] };
+
+/**
+ * Schema builders
+ */
+export const s = {
+  string: (): Schema => ({ kind: 'string' }),
+  number: (): Schema => ({ kind: 'number' }),
+  /** Integer as a JSON number or decimal string (anything accepted by BigInt) */
+  integer: (): Schema => ({ kind: 'integer' }),
+  boolean: (): Schema => ({ kind: 'boolean' }),
+  unknown: (): Schema => ({ kind: 'unknown' }),
+  literal: (...values: (string | number)[]): Schema => ({ kind: 'literal', values }),
+  array: (items: Schema): Schema => ({ kind: 'array', items }),
+  object: (fields: Record<string, Schema>): Schema => ({ kind: 'object', fields }),
+  optional: (inner: Schema): Schema => ({ kind: 'optional', inner }),
+  nullable: (inner: Schema): Schema => ({ kind: 'nullable', inner }),
+  union: (...options: Schema[]): Schema => ({ kind: 'union', options }),
+};
+
+/**
+ * Validation mode: 'strict' rejects unknown object fields, 'lenient' ignores them
+ */
+export type ValidationMode = 'strict' | 'lenient';
+
+/**
+ * Describe a schema for error messages
+ */
+function describe(schema: Schema): string {
+  switch (schema.kind) {
+    case 'literal':
+      return schema.values.map((v) => JSON.stringify(v)).join(' | ');
+    case 'array':
+      return `array of ${describe(schema.items)}`;
+    case 'optional':
+      return `${describe(schema.inner)} (optional)`;
+    case 'nullable':
+      return `${describe(schema.inner)} or null`;
+    case 'union':
+      return schema.options.map(describe).join(' or ');
+    default:
+      return schema.kind;
+  }
+}
+
+/**
+ * Describe a value's type for error messages
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isInteger(value: unknown): boolean {
+  if (typeof value === 'number') return Number.isInteger(value);
+  return typeof value === 'string' && /^-?\d+$/.test(value);
+}
+
+/**
+ * Find the first mismatch between a value and a schema
+ * @returns Path and expectation of the first mismatch, or null when valid
+ */
+function findMismatch(
+  schema: Schema,
+  value: unknown,
+  path: string,
+  mode: ValidationMode
+): { path: string; expected: string; value: unknown } | null {
+  const mismatch = (expected = describe(schema)) => ({ path, expected, value });
+
+  switch (schema.kind) {
+    case 'unknown':
+      return null;
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return typeof value === schema.kind ? null : mismatch();
+    case 'integer':
+      return isInteger(value) ? null : mismatch('integer');
+    case 'literal':
+      return schema.values.includes(value as string | number) ? null : mismatch();
+    case 'optional':
+      return value === undefined ? null : findMismatch(schema.inner, value, path, mode);
+    case 'nullable':
+      return value === null ? null : findMismatch(schema.inner, value, path, mode);
+    case 'union':
+      return schema.options.some((option) => !findMismatch(option, value, path, mode))
+        ? null
+        : mismatch();
+    case 'array': {
+      if (!Array.isArray(value)) return mismatch();
+      for (let i = 0; i < value.length; i++) {
+        const result = findMismatch(schema.items, value[i], `${path}[${i}]`, mode);
+        if (result) return result;
+      }
+      return null;
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return mismatch('object');
+      }
+      const record = value as Record<string, unknown>;
+      for (const [key, fieldSchema] of Object.entries(schema.fields)) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        const result = findMismatch(fieldSchema, record[key], fieldPath, mode);
+        if (result) return result;
+      }
+      if (mode === 'strict') {
+        const unknownKey = Object.keys(record).find((key) => !(key in schema.fields));
+        if (unknownKey !== undefined) {
+          return {
+            path: path ? `${path}.${unknownKey}` : unknownKey,
+            expected: 'no unknown fields',
+            value: record[unknownKey],
+          };
+        }
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Validate a response body against a schema
+ * @throws TesseraError with ErrorCode.InvalidResponse describing the endpoint, path and value
+ */
+export function validateResponse(
+  schema: Schema,
+  value: unknown,
+  endpoint: string,
+  mode: ValidationMode = 'lenient'
+): void {
+  const result = findMismatch(schema, value, '', mode);
+  if (!result) return;
+
+  const location = result.path || '(root)';
+  let shown: string;
+  try {
+    shown = JSON.stringify(result.value) ?? 'undefined';
+  } catch {
+    shown = String(result.value);
+  }
+  if (shown.length > 80) shown = `${shown.slice(0, 77)}...`;
+
+  throw new TesseraError(
+    ErrorCode.InvalidResponse,
+    `Invalid response from ${endpoint}: ${location} expected ${result.expected}, got ${typeOf(result.value)} ${shown}`,
+    { endpoint, path: location, expected: result.expected, value: result.value }
+  );
+}
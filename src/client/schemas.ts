@@ -0,0 +1,137 @@
+/**
+ * Response schemas for every node endpoint
+ */
+
+import { s, Schema } from './schema.js';
+
+const transaction = s.object({
+  tx_type: s.string(),
+  chain_id: s.string(),
+  from: s.string(),
+  to: s.string(),
+  amount: s.integer(),
+  payload: s.nullable(s.string()),
+  nonce: s.integer(),
+  timestamp: s.integer(),
+  signature: s.string(),
+  hash: s.optional(s.string()),
+  fee: s.optional(s.integer()),
+});
+
+const block = s.object({
+  height: s.integer(),
+  timestamp: s.integer(),
+  prev_hash: s.string(),
+  merkle_root: s.string(),
+  proposer: s.string(),
+  transactions: s.array(transaction),
+  hash: s.string(),
+  signature: s.optional(s.string()),
+});
+
+const proposal = s.object({
+  id: s.integer(),
+  proposer: s.string(),
+  title: s.string(),
+  description: s.string(),
+  changes: s.array(s.object({ param: s.string(), value: s.union(s.number(), s.string()) })),
+  status: s.literal('voting', 'passed', 'rejected', 'vetoed'),
+  submit_height: s.integer(),
+  voting_end_height: s.integer(),
+  deposit: s.integer(),
+  votes_yes: s.integer(),
+  votes_no: s.integer(),
+  votes_abstain: s.integer(),
+  votes_veto: s.integer(),
+});
+
+/**
+ * Schemas for HTTP endpoint responses, keyed by path
+ */
+export const EndpointSchemas: Readonly<Record<string, Schema>> = {
+  '/health': s.unknown(),
+  '/network_status': s.object({
+    current_height: s.integer(),
+    mempool_size: s.integer(),
+    total_transactions: s.integer(),
+    state_root: s.string(),
+    chain_id: s.optional(s.string()),
+    network_id: s.optional(s.string()),
+    genesis_hash: s.optional(s.string()),
+    latest_block_time: s.optional(s.integer()),
+    peer_count: s.optional(s.integer()),
+    syncing: s.optional(s.boolean()),
+  }),
+  '/network_identity': s.object({
+    chain_id: s.string(),
+    network_id: s.string(),
+    genesis_hash: s.string(),
+    genesis_time: s.integer(),
+  }),
+  '/chain_params': s.object({
+    max_validators: s.number(),
+    min_validator_stake: s.integer(),
+    max_txs_per_block: s.number(),
+    max_block_size: s.number(),
+    base_fee: s.integer(),
+    staking_fee: s.integer(),
+    voting_period: s.integer(),
+    quorum: s.number(),
+    threshold: s.number(),
+    veto_threshold: s.number(),
+    height: s.optional(s.integer()),
+  }),
+  '/get_account': s.object({
+    address: s.string(),
+    balance: s.integer(),
+    nonce: s.integer(),
+    exists: s.boolean(),
+    height: s.optional(s.integer()),
+  }),
+  '/get_transaction': s.object({
+    transaction: transaction,
+    in_mempool: s.boolean(),
+    block_height: s.optional(s.integer()),
+    block_hash: s.optional(s.string()),
+  }),
+  '/transactions': s.object({ transactions: s.array(transaction) }),
+  '/get_block': s.object({ block }),
+  '/validators': s.object({
+    validators: s.array(
+      s.object({
+        address: s.string(),
+        stake: s.integer(),
+        is_active: s.boolean(),
+        commission: s.number(),
+      })
+    ),
+    height: s.optional(s.integer()),
+  }),
+  '/proposals': s.object({ proposals: s.array(proposal), height: s.optional(s.integer()) }),
+  '/get_proposal': proposal,
+  '/mempool': s.array(transaction),
+};
+
+const rpcEnvelope = s.object({
+  jsonrpc: s.string(),
+  result: s.unknown(),
+  error: s.optional(s.object({ code: s.number(), message: s.string(), data: s.unknown() })),
+  id: s.nullable(s.number()),
+});
+
+/**
+ * Schema for a single /rpc response
+ */
+export const RpcEnvelopeSchema: Schema = rpcEnvelope;
+
+/**
+ * Schema for a batch /rpc response
+ */
+export const RpcBatchSchema: Schema = s.array(rpcEnvelope);
+
+/**
+ * Schemas for JSON-RPC results, keyed by method
+ */
+export const RpcResultSchemas: Readonly<Record<string, Schema>> = {
+  tx_submit: s.object({ hash: s.string(), status: s.string() }),
+};
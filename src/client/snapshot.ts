@@ -0,0 +1,80 @@
+/**
+ * Consistent reads of chain state at a single height
+ */
+
+import type { TesseraClient, RequestOptions } from './index.js';
+import {
+  Account,
+  ChainParams,
+  Proposal,
+  Validator,
+  TesseraError,
+  ErrorCode,
+} from '../types/index.js';
+
+/**
+ * State queries pinned to one block height
+ */
+export interface StateView {
+  /** Height every query of this view reads at */
+  readonly height: bigint;
+  getAccount(address: string, options?: RequestOptions): Promise<Account>;
+  getBalance(address: string, options?: RequestOptions): Promise<bigint>;
+  getNonce(address: string, options?: RequestOptions): Promise<bigint>;
+  getValidators(options?: RequestOptions): Promise<Validator[]>;
+  getChainParams(options?: RequestOptions): Promise<ChainParams>;
+  getProposals(options?: RequestOptions): Promise<Proposal[]>;
+}
+
+/**
+ * Options for `TesseraClient.consistentRead`
+ */
+export interface ConsistentReadOptions extends RequestOptions {
+  /** Height to read at (default: the current height) */
+  atHeight?: bigint;
+}
+
+/**
+ * Run a batch of state queries against one height. Every query must be
+ * answered at that height (`ErrorCode.HistoricalStateUnavailable` otherwise).
+ *
+ * Without `atHeight`, the batch is pinned to the current height and the chain
+ * head is checked again afterwards; if the node advanced,
+ * `ErrorCode.StateChanged` is thrown.
+ */
+export async function consistentRead<T>(
+  client: TesseraClient,
+  read: (view: StateView) => Promise<T>,
+  options: ConsistentReadOptions = {}
+): Promise<T> {
+  const { atHeight, ...requestOptions } = options;
+  const height = atHeight ?? (await client.getNetworkStatus(requestOptions)).blockHeight;
+  const at = (callOptions?: RequestOptions) => ({
+    ...requestOptions,
+    ...callOptions,
+    atHeight: height,
+  });
+
+  const result = await read({
+    height,
+    getAccount: (address, callOptions) => client.getAccount(address, at(callOptions)),
+    getBalance: (address, callOptions) => client.getBalance(address, at(callOptions)),
+    getNonce: (address, callOptions) => client.getNonce(address, at(callOptions)),
+    getValidators: (callOptions) => client.getValidators(at(callOptions)),
+    getChainParams: (callOptions) => client.getChainParams(at(callOptions)),
+    getProposals: (callOptions) => client.getProposals(at(callOptions)),
+  });
+
+  if (atHeight === undefined) {
+    const current = (await client.getNetworkStatus(requestOptions)).blockHeight;
+    if (current !== height) {
+      throw new TesseraError(
+        ErrorCode.StateChanged,
+        `Chain advanced from height ${height} to ${current} during a consistent read`,
+        { height, current }
+      );
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,516 @@
+/**
+ * WebSocket subscriptions for blocks, transactions, accounts and mempool events
+ */
+
+import type { TesseraClient, RawBlock, RpcRequest, RpcResponse } from './index.js';
+import { parseBlock } from './index.js';
+import { rpcError } from './errors.js';
+import {
+  RetryOptions,
+  ResolvedRetryOptions,
+  DEFAULT_RETRY_OPTIONS,
+  computeBackoff,
+} from './retry.js';
+import {
+  Account,
+  Block,
+  TransactionJson,
+  TransactionReceipt,
+  TesseraError,
+  ErrorCode,
+} from '../types/index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Minimal WebSocket interface (compatible with the WHATWG WebSocket and `ws`)
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+}
+
+/**
+ * Constructor for a WebSocket implementation
+ */
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+/**
+ * Subscription configuration for TesseraClient
+ */
+export interface SubscriptionOptions {
+  /** WebSocket URL (default: client endpoint with ws(s):// scheme and /ws path) */
+  url?: string;
+  /** WebSocket implementation (default: globalThis.WebSocket) */
+  webSocket?: WebSocketConstructor;
+  /** Reconnect policy (default: unlimited attempts, 500ms initial delay, 30s max delay) */
+  reconnect?: Pick<
+    RetryOptions,
+    'maxAttempts' | 'initialDelay' | 'maxDelay' | 'multiplier' | 'jitter'
+  >;
+  /** Called for connection and listener errors that cannot be thrown to a caller */
+  onError?: (error: TesseraError) => void;
+}
+
+/**
+ * Subscription topics
+ */
+export type SubscriptionTopic = 'newBlocks' | 'mempool' | `tx:${string}` | `account:${string}`;
+
+/**
+ * Status update for a subscribed transaction
+ */
+export interface TransactionStatusUpdate {
+  hash: string;
+  status: TransactionReceipt['status'];
+  blockHeight?: bigint;
+  blockHash?: string;
+}
+
+/**
+ * Event data delivered for a topic
+ */
+export type SubscriptionData<T extends SubscriptionTopic> = T extends 'newBlocks'
+  ? Block
+  : T extends 'mempool'
+    ? TransactionJson
+    : T extends `tx:${string}`
+      ? TransactionStatusUpdate
+      : Account;
+
+/**
+ * Active subscription handle
+ */
+export interface Subscription {
+  topic: SubscriptionTopic;
+  /** Stop receiving events for this subscription */
+  unsubscribe(): Promise<void>;
+}
+
+type Listener = (data: unknown) => void;
+
+interface TopicState {
+  listeners: Set<Listener>;
+  serverId: string | null;
+}
+
+interface PendingCall {
+  resolve: (result: unknown) => void;
+  reject: (error: TesseraError) => void;
+}
+
+const WS_OPEN = 1;
+
+/**
+ * Check that a topic is well-formed
+ */
+function isValidTopic(topic: string): topic is SubscriptionTopic {
+  if (topic === 'newBlocks' || topic === 'mempool') return true;
+  return /^(tx|account):[0-9a-fA-F]+$/.test(topic);
+}
+
+/**
+ * Derive the default WebSocket URL from an HTTP endpoint
+ */
+export function defaultWebSocketUrl(endpoint: string): string {
+  return `${endpoint.replace(/^http/, 'ws')}/ws`;
+}
+
+// ============================================================================
+// Subscription Manager
+// ============================================================================
+
+/**
+ * Manages the WebSocket connection and topic subscriptions of a TesseraClient.
+ * Reconnects with backoff, resubscribes every topic and fills block gaps via
+ * `getBlock` after a reconnect.
+ */
+export class SubscriptionManager {
+  private readonly url: string;
+  private readonly WebSocketImpl: WebSocketConstructor | undefined;
+  private readonly reconnectPolicy: ResolvedRetryOptions;
+  private readonly onError?: (error: TesseraError) => void;
+
+  private readonly topics = new Map<SubscriptionTopic, TopicState>();
+  private readonly pending = new Map<number, PendingCall>();
+  private socket: WebSocketLike | null = null;
+  private connecting: Promise<void> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempt = 0;
+  private requestId = 0;
+  private closed = false;
+
+  /** Last block height delivered to newBlocks listeners */
+  private lastHeight: bigint | null = null;
+  /** Serializes block delivery so gap filling never reorders heights */
+  private blockQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly client: TesseraClient,
+    endpoint: string,
+    options: SubscriptionOptions = {}
+  ) {
+    this.url = options.url ?? defaultWebSocketUrl(endpoint);
+    this.WebSocketImpl =
+      options.webSocket ?? (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket;
+    this.reconnectPolicy = {
+      ...DEFAULT_RETRY_OPTIONS,
+      maxAttempts: Infinity,
+      initialDelay: 500,
+      maxDelay: 30000,
+      ...options.reconnect,
+    };
+    this.onError = options.onError;
+  }
+
+  /**
+   * Subscribe a listener to a topic
+   */
+  async subscribe<T extends SubscriptionTopic>(
+    topic: T,
+    listener: (data: SubscriptionData<T>) => void
+  ): Promise<Subscription> {
+    if (!isValidTopic(topic)) {
+      throw new TesseraError(ErrorCode.InvalidArgument, `Invalid subscription topic: ${topic}`);
+    }
+    this.closed = false;
+
+    let state = this.topics.get(topic);
+    const isNewTopic = !state;
+    if (!state) {
+      state = { listeners: new Set(), serverId: null };
+      this.topics.set(topic, state);
+    }
+    state.listeners.add(listener as Listener);
+
+    if (isNewTopic) {
+      try {
+        await this.connect();
+        await this.subscribeTopic(topic);
+      } catch (error) {
+        this.topics.delete(topic);
+        throw error;
+      }
+    }
+
+    return {
+      topic,
+      unsubscribe: () => this.unsubscribe(topic, listener as Listener),
+    };
+  }
+
+  /**
+   * Close the connection and drop every subscription
+   */
+  close(): void {
+    this.closed = true;
+    this.topics.clear();
+    this.lastHeight = null;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+    this.rejectPending('WebSocket connection closed by the client');
+  }
+
+  private async unsubscribe(topic: SubscriptionTopic, listener: Listener): Promise<void> {
+    const state = this.topics.get(topic);
+    if (!state || !state.listeners.delete(listener) || state.listeners.size > 0) return;
+
+    this.topics.delete(topic);
+    if (topic === 'newBlocks') this.lastHeight = null;
+
+    if (this.topics.size === 0) {
+      this.close();
+      return;
+    }
+
+    if (state.serverId !== null && this.socket?.readyState === WS_OPEN) {
+      await this.call('unsubscribe', { subscription: state.serverId });
+    }
+  }
+
+  // ============================================================================
+  // Connection
+  // ============================================================================
+
+  private connect(): Promise<void> {
+    if (this.socket?.readyState === WS_OPEN) return Promise.resolve();
+    if (this.connecting) return this.connecting;
+
+    if (!this.WebSocketImpl) {
+      return Promise.reject(
+        new TesseraError(
+          ErrorCode.NetworkError,
+          'No WebSocket implementation available. Pass subscriptions.webSocket in ClientOptions.'
+        )
+      );
+    }
+
+    const WebSocketImpl = this.WebSocketImpl;
+    this.connecting = new Promise<void>((resolve, reject) => {
+      const socket = new WebSocketImpl(this.url);
+      let opened = false;
+
+      socket.onopen = () => {
+        opened = true;
+        if (this.closed) {
+          socket.close();
+          reject(
+            new TesseraError(ErrorCode.NetworkError, 'WebSocket connection closed by the client')
+          );
+          return;
+        }
+        this.socket = socket;
+        resolve();
+      };
+      socket.onmessage = (event) => this.handleMessage(event.data);
+      socket.onerror = () => {
+        if (!opened) {
+          reject(
+            new TesseraError(ErrorCode.NetworkError, `WebSocket connection failed: ${this.url}`)
+          );
+        }
+      };
+      socket.onclose = () => {
+        if (!opened) {
+          reject(
+            new TesseraError(ErrorCode.NetworkError, `WebSocket connection failed: ${this.url}`)
+          );
+          return;
+        }
+        this.handleClose(socket);
+      };
+    }).finally(() => {
+      this.connecting = null;
+    });
+
+    return this.connecting;
+  }
+
+  private handleClose(socket: WebSocketLike): void {
+    if (this.socket !== socket) return;
+    this.socket = null;
+
+    this.rejectPending('WebSocket connection closed');
+    for (const state of this.topics.values()) {
+      state.serverId = null;
+    }
+
+    if (!this.closed && this.topics.size > 0) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private rejectPending(message: string): void {
+    for (const call of this.pending.values()) {
+      call.reject(new TesseraError(ErrorCode.NetworkError, message));
+    }
+    this.pending.clear();
+  }
+
+  private scheduleReconnect(): void {
+    this.reconnectAttempt++;
+    if (this.reconnectAttempt > this.reconnectPolicy.maxAttempts) {
+      this.reportError(
+        new TesseraError(
+          ErrorCode.NetworkError,
+          `WebSocket reconnect failed after ${this.reconnectPolicy.maxAttempts} attempts`
+        )
+      );
+      return;
+    }
+
+    const delay = computeBackoff(this.reconnectAttempt, this.reconnectPolicy);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect()
+        .then(() => {
+          this.reconnectAttempt = 0;
+          return this.resubscribe();
+        })
+        .catch((error) => {
+          this.reportError(error as TesseraError);
+          if (!this.socket && !this.closed) this.scheduleReconnect();
+        });
+    }, delay);
+  }
+
+  private async resubscribe(): Promise<void> {
+    for (const topic of this.topics.keys()) {
+      await this.subscribeTopic(topic);
+    }
+
+    if (this.topics.has('newBlocks') && this.lastHeight !== null) {
+      this.enqueueBlocks(async () => {
+        const status = await this.client.getNetworkStatus();
+        await this.fillBlocks(status.blockHeight);
+      });
+    }
+  }
+
+  // ============================================================================
+  // Messaging
+  // ============================================================================
+
+  private async subscribeTopic(topic: SubscriptionTopic): Promise<void> {
+    const serverId = await this.call('subscribe', { topic });
+    const state = this.topics.get(topic);
+    if (state) state.serverId = String(serverId);
+  }
+
+  private call(method: string, params: unknown): Promise<unknown> {
+    const socket = this.socket;
+    if (!socket || socket.readyState !== WS_OPEN) {
+      return Promise.reject(new TesseraError(ErrorCode.NetworkError, 'WebSocket not connected'));
+    }
+
+    const request: RpcRequest = { jsonrpc: '2.0', method, params, id: ++this.requestId };
+    return new Promise((resolve, reject) => {
+      this.pending.set(request.id, { resolve, reject });
+      socket.send(JSON.stringify(request));
+    });
+  }
+
+  private handleMessage(data: unknown): void {
+    let message: RpcResponse<unknown> & {
+      method?: string;
+      params?: { subscription: string; result: unknown };
+    };
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      this.reportError(new TesseraError(ErrorCode.RpcError, 'Invalid WebSocket message', data));
+      return;
+    }
+
+    if (typeof message.id === 'number' && this.pending.has(message.id)) {
+      const call = this.pending.get(message.id)!;
+      this.pending.delete(message.id);
+      if (message.error) {
+        call.reject(rpcError(message.error));
+      } else {
+        call.resolve(message.result);
+      }
+      return;
+    }
+
+    if (message.method === 'subscription' && message.params) {
+      const { subscription, result } = message.params;
+      for (const [topic, state] of this.topics) {
+        if (state.serverId === String(subscription)) {
+          this.dispatch(topic, result);
+          return;
+        }
+      }
+    }
+  }
+
+  private dispatch(topic: SubscriptionTopic, result: unknown): void {
+    if (topic === 'newBlocks') {
+      const block = parseBlock(result as RawBlock);
+      this.enqueueBlocks(async () => {
+        await this.fillBlocks(block.header.height - 1n);
+        this.deliverBlock(block);
+      });
+      return;
+    }
+
+    if (topic === 'mempool') {
+      this.emit(topic, result);
+    } else if (topic.startsWith('tx:')) {
+      const update = result as {
+        hash: string;
+        status: string;
+        block_height?: number;
+        block_hash?: string;
+      };
+      this.emit(topic, {
+        hash: update.hash,
+        status: update.status as TransactionReceipt['status'],
+        blockHeight: update.block_height !== undefined ? BigInt(update.block_height) : undefined,
+        blockHash: update.block_hash,
+      } satisfies TransactionStatusUpdate);
+    } else {
+      const account = result as {
+        address: string;
+        balance: number;
+        nonce: number;
+        exists: boolean;
+      };
+      this.emit(topic, {
+        address: account.address,
+        balance: BigInt(account.balance),
+        nonce: BigInt(account.nonce),
+        exists: account.exists,
+      } satisfies Account);
+    }
+  }
+
+  // ============================================================================
+  // Block Delivery
+  // ============================================================================
+
+  private enqueueBlocks(task: () => Promise<void>): void {
+    this.blockQueue = this.blockQueue.then(task).catch((error) => {
+      this.reportError(
+        error instanceof TesseraError
+          ? error
+          : new TesseraError(ErrorCode.NetworkError, (error as Error).message)
+      );
+    });
+  }
+
+  /**
+   * Fetch and deliver every block after the last delivered height up to `toHeight`
+   */
+  private async fillBlocks(toHeight: bigint): Promise<void> {
+    if (this.lastHeight === null) return;
+
+    for (let height = this.lastHeight + 1n; height <= toHeight; height++) {
+      const block = await this.client.getBlock(height);
+      if (!block) return;
+      this.deliverBlock(block);
+    }
+  }
+
+  private deliverBlock(block: Block): void {
+    if (!this.topics.has('newBlocks')) return;
+    if (this.lastHeight !== null && block.header.height <= this.lastHeight) return;
+
+    this.lastHeight = block.header.height;
+    this.emit('newBlocks', block);
+  }
+
+  private emit(topic: SubscriptionTopic, data: unknown): void {
+    const state = this.topics.get(topic);
+    if (!state) return;
+
+    for (const listener of state.listeners) {
+      try {
+        listener(data);
+      } catch (error) {
+        this.reportError(
+          new TesseraError(
+            ErrorCode.RpcError,
+            `Subscription listener failed: ${(error as Error).message}`,
+            error
+          )
+        );
+      }
+    }
+  }
+
+  private reportError(error: TesseraError): void {
+    this.onError?.(error);
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Node sync status
+ */
+
+import type { TesseraClient, RequestOptions } from './index.js';
+
+/**
+ * Options for `TesseraClient.getSyncStatus`
+ */
+export interface SyncStatusOptions extends RequestOptions {
+  /** Other nodes of the same network to compare heights against */
+  peers?: TesseraClient[];
+  /** Latest block age in seconds above which the node is considered syncing (default: 30) */
+  maxBlockAge?: number;
+  /** Blocks behind the highest peer above which the node is considered syncing (default: 2) */
+  maxHeightLag?: bigint;
+}
+
+/**
+ * Sync status derived from the node's latest block and its peers
+ */
+export interface SyncStatus {
+  isSyncing: boolean;
+  blockHeight: bigint;
+  /** Timestamp of the latest block (Unix seconds), or null when unavailable */
+  latestBlockTime: bigint | null;
+  /** Seconds since the latest block, or null when unavailable */
+  blockAge: number | null;
+  /** Highest height reported by a reachable peer, or null without peers */
+  peerHeight: bigint | null;
+  /** Blocks behind the highest peer (0 when level or ahead) */
+  heightLag: bigint;
+}
+
+/**
+ * Derive a node's sync status. Unreachable peers are ignored.
+ */
+export async function getSyncStatus(
+  client: TesseraClient,
+  options: SyncStatusOptions = {}
+): Promise<SyncStatus> {
+  const { peers = [], maxBlockAge = 30, maxHeightLag = 2n, ...requestOptions } = options;
+
+  const [status, peerStatuses] = await Promise.all([
+    client.getNetworkStatus(requestOptions),
+    Promise.allSettled(peers.map((peer) => peer.getNetworkStatus(requestOptions))),
+  ]);
+
+  const latestBlockTime =
+    status.blockTime ??
+    (await client.getBlock(status.blockHeight, requestOptions))?.header.timestamp ??
+    null;
+  const blockAge =
+    latestBlockTime !== null
+      ? Math.max(0, Math.floor(Date.now() / 1000) - Number(latestBlockTime))
+      : null;
+
+  let peerHeight: bigint | null = null;
+  for (const result of peerStatuses) {
+    if (
+      result.status === 'fulfilled' &&
+      (peerHeight === null || result.value.blockHeight > peerHeight)
+    ) {
+      peerHeight = result.value.blockHeight;
+    }
+  }
+  const heightLag =
+    peerHeight !== null && peerHeight > status.blockHeight ? peerHeight - status.blockHeight : 0n;
+
+  return {
+    isSyncing:
+      status.isSyncing === true ||
+      (blockAge !== null && blockAge > maxBlockAge) ||
+      heightLag > maxHeightLag,
+    blockHeight: status.blockHeight,
+    latestBlockTime,
+    blockAge,
+    peerHeight,
+    heightLag,
+  };
+}
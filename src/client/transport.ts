@@ -0,0 +1,102 @@
+/**
+ * Pluggable transports for TesseraClient
+ */
+
+/**
+ * Request handed to a transport
+ */
+export interface TransportRequest {
+  method: 'GET' | 'POST';
+  /** Full request URL (endpoint + path) */
+  url: string;
+  /** Request path (e.g. "/get_account") */
+  path: string;
+  headers: Record<string, string>;
+  /** Request body before JSON serialization */
+  body?: unknown;
+  /** Aborted when the request times out or is cancelled */
+  signal: AbortSignal;
+}
+
+/**
+ * Response returned by a transport
+ */
+export interface TransportResponse {
+  /** HTTP status code (use 200 for successful in-process responses) */
+  status: number;
+  statusText?: string;
+  /** Response headers with lower-case names */
+  headers?: Record<string, string>;
+  /** Parsed response body */
+  data: unknown;
+}
+
+/**
+ * Transport used by TesseraClient to reach a node.
+ * Implementations should reject with an `AbortError` when the signal aborts
+ * and with any other error for connection failures.
+ */
+export interface Transport {
+  request(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Options for the default HTTP transport
+ */
+export interface HttpTransportOptions {
+  /** fetch implementation (default: globalThis.fetch) */
+  fetch?: typeof fetch;
+  /** Extra RequestInit fields passed to every fetch call (e.g. a dispatcher/agent) */
+  init?: Omit<RequestInit, 'method' | 'headers' | 'body' | 'signal'>;
+}
+
+/**
+ * Default transport using the Fetch API
+ */
+export class HttpTransport implements Transport {
+  private readonly fetchImpl?: typeof fetch;
+  private readonly init: HttpTransportOptions['init'];
+
+  constructor(options: HttpTransportOptions = {}) {
+    this.fetchImpl = options.fetch;
+    this.init = options.init;
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    // Resolve the global lazily so fetch can be replaced after construction
+    const fetchImpl = this.fetchImpl ?? fetch;
+
+    const response = await fetchImpl(request.url, {
+      ...this.init,
+      method: request.method,
+      headers: request.headers,
+      body: request.body === undefined ? undefined : JSON.stringify(request.body),
+      signal: request.signal,
+    });
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name.toLowerCase()] = value;
+    });
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      data: response.ok ? await response.json() : await readErrorBody(response),
+    };
+  }
+}
+
+/**
+ * Read an error response body as JSON when possible, falling back to text
+ */
+async function readErrorBody(response: Response): Promise<unknown> {
+  const text = await response.text().catch(() => '');
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
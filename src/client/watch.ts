@@ -0,0 +1,74 @@
+/**
+ * Polling-based block stream
+ */
+
+import type { TesseraClient } from './index.js';
+import { sleep } from './retry.js';
+import { Block, TesseraError, ErrorCode } from '../types/index.js';
+
+/**
+ * Options for `TesseraClient.watchBlocks`
+ */
+export interface WatchBlocksOptions {
+  /** First height to yield (default: the current height) */
+  fromHeight?: bigint;
+  /** Delay between /network_status polls when caught up, in milliseconds (default: 1000) */
+  pollInterval?: number;
+  /** Stops the stream when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Yield every block from `fromHeight` onwards, in order and exactly once.
+ * Throws `ErrorCode.ChainReorg` when a block's previousHash does not match the
+ * hash of the block yielded before it.
+ */
+export async function* watchBlocks(
+  client: TesseraClient,
+  options: WatchBlocksOptions = {}
+): AsyncGenerator<Block, void, undefined> {
+  const { signal } = options;
+  const pollInterval = options.pollInterval ?? 1000;
+
+  let nextHeight = options.fromHeight;
+  let previousHash: string | null = null;
+
+  // Cancellation ends the stream instead of surfacing ErrorCode.Aborted
+  const untilAborted = async <T>(call: Promise<T>): Promise<T | null> => {
+    try {
+      return await call;
+    } catch (error) {
+      if (signal?.aborted) return null;
+      throw error;
+    }
+  };
+
+  while (!signal?.aborted) {
+    const status = await untilAborted(client.getNetworkStatus({ signal }));
+    if (!status) return;
+    nextHeight ??= status.blockHeight;
+
+    while (nextHeight <= status.blockHeight && !signal?.aborted) {
+      const block = await untilAborted(client.getBlock(nextHeight, { signal }));
+
+      // Not available yet on this node: try again after the next poll
+      if (!block) break;
+
+      if (previousHash !== null && block.header.previousHash !== previousHash) {
+        throw new TesseraError(
+          ErrorCode.ChainReorg,
+          `Chain reorganization detected at height ${nextHeight}: previous hash ${block.header.previousHash} does not match ${previousHash}`,
+          { height: nextHeight, expected: previousHash, actual: block.header.previousHash }
+        );
+      }
+
+      if (signal?.aborted) return;
+      yield block;
+
+      previousHash = block.hash;
+      nextHeight++;
+    }
+
+    await sleep(pollInterval, signal);
+  }
+}
@@ -34,6 +34,16 @@ export function doubleHash(data: string | Uint8Array): Uint8Array {
   return hash(hash(data));
 }
 
+/**
+ * Concatenate two hashes and hash the result
+ */
+function hashPair(left: Uint8Array, right: Uint8Array): Uint8Array {
+  const combined = new Uint8Array(left.length + right.length);
+  combined.set(left, 0);
+  combined.set(right, left.length);
+  return hash(combined);
+}
+
 /**
  * Compute Merkle root from list of hashes
  * @param hashes - List of 32-byte hashes
@@ -58,12 +68,7 @@ export function merkleRoot(hashes: Uint8Array[]): Uint8Array {
       const left = currentLevel[i];
       const right = currentLevel[i + 1] || left; // Duplicate last if odd
 
-      // Concatenate and hash
-      const combined = new Uint8Array(left.length + right.length);
-      combined.set(left, 0);
-      combined.set(right, left.length);
-
-      nextLevel.push(hash(combined));
+      nextLevel.push(hashPair(left, right));
     }
 
     currentLevel = nextLevel;
@@ -71,3 +76,58 @@ export function merkleRoot(hashes: Uint8Array[]): Uint8Array {
 
   return currentLevel[0];
 }
+
+/**
+ * Build a Merkle inclusion proof for the leaf at `index`, matching `merkleRoot`
+ * @param hashes - List of 32-byte leaf hashes
+ * @param index - Position of the leaf to prove
+ * @returns Sibling hashes from the leaf level up to (excluding) the root
+ */
+export function merkleProof(hashes: Uint8Array[], index: number): Uint8Array[] {
+  if (index < 0 || index >= hashes.length) {
+    throw new RangeError(`Leaf index ${index} out of range`);
+  }
+
+  const siblings: Uint8Array[] = [];
+  let currentLevel = [...hashes];
+  let position = index;
+
+  while (currentLevel.length > 1) {
+    const siblingIndex = position % 2 === 0 ? position + 1 : position - 1;
+    siblings.push(currentLevel[siblingIndex] ?? currentLevel[position]); // Duplicate last if odd
+
+    const nextLevel: Uint8Array[] = [];
+    for (let i = 0; i < currentLevel.length; i += 2) {
+      nextLevel.push(hashPair(currentLevel[i], currentLevel[i + 1] || currentLevel[i]));
+    }
+
+    currentLevel = nextLevel;
+    position = Math.floor(position / 2);
+  }
+
+  return siblings;
+}
+
+/**
+ * Verify a Merkle inclusion proof produced by `merkleProof`
+ * @param leaf - Leaf hash
+ * @param index - Position of the leaf
+ * @param siblings - Sibling hashes from the leaf level upwards
+ * @param root - Expected Merkle root
+ */
+export function verifyMerkleProof(
+  leaf: Uint8Array,
+  index: number,
+  siblings: Uint8Array[],
+  root: Uint8Array
+): boolean {
+  let current = leaf;
+  let position = index;
+
+  for (const sibling of siblings) {
+    current = position % 2 === 0 ? hashPair(current, sibling) : hashPair(sibling, current);
+    position = Math.floor(position / 2);
+  }
+
+  return current.length === root.length && current.every((byte, i) => byte === root[i]);
+}
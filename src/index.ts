@@ -5,25 +5,131 @@
  */
 
 // Main classes
-export { TesseraClient, type ClientOptions } from './client/index.js';
+export {
+  TesseraClient,
+  type ClientOptions,
+  type RequestOptions,
+  type StateQueryOptions,
+  type CreateEnvelopeOptions,
+  type ReceiptOptions,
+} from './client/index.js';
+export { type RetryOptions, type RetryAttempt } from './client/retry.js';
+export {
+  HttpTransport,
+  type Transport,
+  type TransportRequest,
+  type TransportResponse,
+  type HttpTransportOptions,
+} from './client/transport.js';
+export { type Middleware, type MiddlewareContext } from './client/middleware.js';
+export {
+  MemoryCacheStore,
+  DEFAULT_CACHE_TTL,
+  type CacheStore,
+  type CacheEntry,
+  type CacheOptions,
+} from './client/cache.js';
+export { type RateLimitOptions, type RequestPriority } from './client/rate-limit.js';
+export { type ValidationMode } from './client/schema.js';
+export { RpcBatch, type BatchResult } from './client/batch.js';
+export {
+  type SubscriptionOptions,
+  type SubscriptionTopic,
+  type SubscriptionData,
+  type Subscription,
+  type TransactionStatusUpdate,
+  type WebSocketLike,
+  type WebSocketConstructor,
+} from './client/subscriptions.js';
+export { type WatchBlocksOptions } from './client/watch.js';
+export { type BlockRangeOptions, type BlockRangeItem } from './client/blocks.js';
+export { type SyncStatus, type SyncStatusOptions } from './client/sync.js';
+export { type ExpectedNetworkIdentity } from './client/identity.js';
+export { type HashMismatchDetails, type HashMismatchDiagnosis } from './client/integrity.js';
+export { type StateView, type ConsistentReadOptions } from './client/snapshot.js';
+export {
+  type InstrumentationOptions,
+  type InstrumentationEvent,
+  type RequestEventInfo,
+  type Logger,
+  type TracerLike,
+  type SpanLike,
+  type SpanAttributeValue,
+} from './client/instrumentation.js';
+export {
+  type TransactionDirection,
+  type TransactionQuery,
+  type IterateTransactionsOptions,
+} from './client/history.js';
+export {
+  TesseraClientPool,
+  type PoolOptions,
+  type PoolNodeStatus,
+  type ExecuteOptions,
+} from './client/pool.js';
 export { Wallet, type WalletOptions, type PendingTransaction } from './wallet/index.js';
+export {
+  Network,
+  type NetworkConfig,
+  type NetworkLike,
+  type NetworkPreset,
+  type ExplorerTemplates,
+} from './network/index.js';
 export {
   TransactionBuilder,
+  TX_TYPE_NAMES,
   transactionToJson,
   jsonToTransaction,
   calculateFee,
   calculateHash,
   serializeForSigning,
+  serializeTransaction,
+  deserializeTransaction,
   type TransferOptions,
   type StakeOptions,
   type UnstakeOptions,
   type SubmitProposalOptions,
   type VoteOptions,
 } from './transaction/index.js';
+export {
+  ENVELOPE_VERSION,
+  createEnvelope,
+  encodeEnvelope,
+  decodeEnvelope,
+  signEnvelope,
+  describeTransaction,
+  type TransactionEnvelope,
+  type EnvelopeDisplayOptions,
+} from './transaction/envelope.js';
+export {
+  verifyTransaction,
+  verifyBlockTransactions,
+  type TransactionVerification,
+  type VerificationFailureReason,
+  type BlockVerification,
+} from './transaction/verify.js';
+export {
+  decodeTransaction,
+  decodeVotePayload,
+  decodeProposalPayload,
+  type DecodedTransaction,
+  type DecodedTransfer,
+  type DecodedStake,
+  type DecodedUnstake,
+  type DecodedSubmitProposal,
+  type DecodedVote,
+} from './transaction/decode.js';
+export {
+  TransactionCodec,
+  bincode,
+  diffTransactions,
+  type FieldCodec,
+  type TransactionFieldDiff,
+} from './transaction/codec.js';
 
 // Crypto
 export { KeyPair, verifySignature } from './crypto/keys.js';
-export { hash, hashHex, merkleRoot } from './crypto/hash.js';
+export { hash, hashHex, merkleRoot, merkleProof, verifyMerkleProof } from './crypto/hash.js';
 export {
   generateMnemonicPhrase,
   isValidMnemonic,
@@ -39,6 +145,7 @@ export {
   type Transaction,
   type TransactionJson,
   type TransactionReceipt,
+  type MerkleProof,
 
   // Account types
   type Account,
@@ -84,6 +191,8 @@ export {
   // Formatting
   bytesToHex,
   hexToBytes,
+  bytesToBase64Url,
+  base64UrlToBytes,
   isValidHex,
   isValidAddress,
   parseAddress,
@@ -0,0 +1,200 @@
+/**
+ * Network presets and registry
+ */
+
+import type { ExpectedNetworkIdentity } from '../client/identity.js';
+import { TesseraError, ErrorCode } from '../types/index.js';
+import { ChainIds, RpcEndpoints, TOKEN_DECIMALS, TOKEN_SYMBOL } from '../utils/constants.js';
+
+/**
+ * Built-in network names
+ */
+export type NetworkPreset = 'mainnet' | 'testnet' | 'devnet' | 'local';
+
+/**
+ * Explorer URL templates; `{hash}`, `{address}` and `{height}` are substituted
+ */
+export interface ExplorerTemplates {
+  transaction?: string;
+  address?: string;
+  block?: string;
+}
+
+/**
+ * Everything needed to talk to a Tessera network
+ */
+export interface NetworkConfig {
+  /** Registry name */
+  name: string;
+  chainId: string;
+  /** RPC endpoints, preferred first (empty when none are published) */
+  rpcEndpoints: string[];
+  /** WebSocket endpoint for subscriptions (default: derived from the first RPC endpoint) */
+  wsEndpoint?: string;
+  /** Expected network ID, checked when set */
+  networkId?: string;
+  /** Expected genesis hash, checked when set */
+  genesisHash?: string;
+  /** Token decimals (default: TOKEN_DECIMALS) */
+  decimals?: number;
+  /** Token symbol (default: TOKEN_SYMBOL) */
+  symbol?: string;
+  explorer?: ExplorerTemplates;
+}
+
+/**
+ * Network name or configuration accepted wherever a network is expected
+ */
+export type NetworkLike = NetworkPreset | string | NetworkConfig | Network;
+
+/**
+ * Built-in networks. Only published values are included: there is no public
+ * devnet endpoint, and no genesis hashes or explorers are published, so
+ * presets pin the chain ID only. Register a custom network to add them.
+ */
+const PRESETS: (NetworkConfig & { name: NetworkPreset })[] = [
+  {
+    name: 'mainnet',
+    chainId: ChainIds.MAINNET,
+    rpcEndpoints: [RpcEndpoints.MAINNET],
+  },
+  {
+    name: 'testnet',
+    chainId: ChainIds.TESTNET,
+    rpcEndpoints: [RpcEndpoints.TESTNET],
+  },
+  {
+    name: 'devnet',
+    chainId: ChainIds.DEVNET,
+    rpcEndpoints: [],
+  },
+  {
+    name: 'local',
+    chainId: ChainIds.LOCAL,
+    rpcEndpoints: [RpcEndpoints.LOCAL],
+  },
+];
+
+/**
+ * A registered Tessera network
+ *
+ * @example
+ * ```typescript
+ * const testnet = Network.get('testnet');
+ * testnet.explorerUrl('transaction', hash);
+ *
+ * Network.register({ name: 'private', chainId: 'acme-1', rpcEndpoints: ['https://rpc.acme'] });
+ * const client = TesseraClient.forNetwork('private');
+ * ```
+ */
+export class Network {
+  private static readonly registry = new Map<string, Network>();
+
+  static {
+    for (const preset of PRESETS) {
+      Network.registry.set(preset.name, new Network(preset));
+    }
+  }
+
+  readonly name: string;
+  readonly chainId: string;
+  readonly rpcEndpoints: readonly string[];
+  readonly wsEndpoint?: string;
+  readonly networkId?: string;
+  readonly genesisHash?: string;
+  readonly decimals: number;
+  readonly symbol: string;
+  readonly explorer: Readonly<ExplorerTemplates>;
+
+  private constructor(config: NetworkConfig) {
+    this.name = config.name;
+    this.chainId = config.chainId;
+    this.rpcEndpoints = [...config.rpcEndpoints];
+    this.wsEndpoint = config.wsEndpoint;
+    this.networkId = config.networkId;
+    this.genesisHash = config.genesisHash;
+    this.decimals = config.decimals ?? TOKEN_DECIMALS;
+    this.symbol = config.symbol ?? TOKEN_SYMBOL;
+    this.explorer = { ...config.explorer };
+  }
+
+  /**
+   * Look up a network by name, or wrap an unregistered configuration
+   * @throws TesseraError with ErrorCode.UnknownNetwork for unregistered names
+   */
+  static get(network: NetworkLike): Network {
+    if (network instanceof Network) return network;
+    if (typeof network !== 'string') return new Network(network);
+
+    const found = Network.registry.get(network);
+    if (!found) {
+      throw new TesseraError(
+        ErrorCode.UnknownNetwork,
+        `Unknown network ${network}; register it with Network.register()`,
+        { network, known: [...Network.registry.keys()] }
+      );
+    }
+    return found;
+  }
+
+  /**
+   * Register a custom network (built-in presets cannot be replaced)
+   */
+  static register(config: NetworkConfig): Network {
+    if (PRESETS.some((preset) => preset.name === config.name)) {
+      throw new TesseraError(
+        ErrorCode.InvalidArgument,
+        `Cannot replace built-in network ${config.name}`
+      );
+    }
+
+    const network = new Network(config);
+    Network.registry.set(network.name, network);
+    return network;
+  }
+
+  /**
+   * All registered networks, presets first
+   */
+  static list(): Network[] {
+    return [...Network.registry.values()];
+  }
+
+  /**
+   * Preferred RPC endpoint
+   * @throws TesseraError with ErrorCode.InvalidArgument when the network has no endpoints
+   */
+  get rpcEndpoint(): string {
+    if (this.rpcEndpoints.length === 0) {
+      throw new TesseraError(
+        ErrorCode.InvalidArgument,
+        `Network ${this.name} has no RPC endpoints; pass an endpoint to TesseraClient`,
+        { network: this.name }
+      );
+    }
+    return this.rpcEndpoints[0];
+  }
+
+  /**
+   * Identity a node on this network must report
+   */
+  get expectedIdentity(): ExpectedNetworkIdentity {
+    return {
+      chainId: this.chainId,
+      ...(this.networkId !== undefined && { networkId: this.networkId }),
+      ...(this.genesisHash !== undefined && { genesisHash: this.genesisHash }),
+    };
+  }
+
+  /**
+   * Explorer link for a transaction hash, address or block height
+   * @returns URL, or null when the network has no template for it
+   */
+  explorerUrl(kind: keyof ExplorerTemplates, value: string | bigint): string | null {
+    const template = this.explorer[kind];
+    if (!template) return null;
+
+    const key = kind === 'transaction' ? 'hash' : kind === 'block' ? 'height' : 'address';
+    return template.replace(`{${key}}`, encodeURIComponent(value.toString()));
+  }
+}
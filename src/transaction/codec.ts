@@ -0,0 +1,266 @@
+/**
+ * Bincode codec for Tessera transactions
+ *
+ * Follows bincode's default (fixed-int, little-endian) encoding used by the
+ * Rust node: enum variants as u32, lengths of strings and byte vectors as u64,
+ * `Option` as a one-byte tag, fixed-size arrays without a length prefix.
+ */
+
+import { Transaction, TxType, TesseraError, ErrorCode } from '../types/index.js';
+import { bytesToHex } from '../utils/format.js';
+
+/**
+ * Encoder and decoder for a single bincode value
+ */
+export interface FieldCodec<T> {
+  encode(value: T, writer: BincodeWriter): void;
+  decode(reader: BincodeReader): T;
+}
+
+/**
+ * Append-only byte buffer
+ */
+export class BincodeWriter {
+  private readonly parts: Uint8Array[] = [];
+  private length = 0;
+
+  write(bytes: Uint8Array): void {
+    this.parts.push(bytes);
+    this.length += bytes.length;
+  }
+
+  finish(): Uint8Array {
+    const result = new Uint8Array(this.length);
+    let offset = 0;
+    for (const part of this.parts) {
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result;
+  }
+}
+
+/**
+ * Sequential reader over encoded bytes
+ */
+export class BincodeReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  read(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new TesseraError(
+        ErrorCode.InvalidTransaction,
+        `Unexpected end of input: needed ${length} bytes at offset ${this.offset}, have ${this.bytes.length - this.offset}`
+      );
+    }
+    const slice = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  get remaining(): number {
+    return this.bytes.length - this.offset;
+  }
+}
+
+function view(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/**
+ * Primitive codecs
+ */
+export const bincode = {
+  u8: {
+    encode: (value, writer) => writer.write(new Uint8Array([value])),
+    decode: (reader) => reader.read(1)[0],
+  } as FieldCodec<number>,
+
+  u32: {
+    encode: (value, writer) => {
+      const bytes = new Uint8Array(4);
+      view(bytes).setUint32(0, value, true);
+      writer.write(bytes);
+    },
+    decode: (reader) => view(reader.read(4)).getUint32(0, true),
+  } as FieldCodec<number>,
+
+  u64: {
+    encode: (value, writer) => {
+      const bytes = new Uint8Array(8);
+      view(bytes).setBigUint64(0, value, true);
+      writer.write(bytes);
+    },
+    decode: (reader) => view(reader.read(8)).getBigUint64(0, true),
+  } as FieldCodec<bigint>,
+
+  /** Vec<u8>: u64 length followed by the bytes */
+  bytes: {
+    encode: (value, writer) => {
+      bincode.u64.encode(BigInt(value.length), writer);
+      writer.write(value);
+    },
+    decode: (reader) => reader.read(Number(bincode.u64.decode(reader))),
+  } as FieldCodec<Uint8Array>,
+
+  /** String: UTF-8 bytes with a u64 length prefix */
+  string: {
+    encode: (value, writer) => bincode.bytes.encode(new TextEncoder().encode(value), writer),
+    decode: (reader) =>
+      new TextDecoder('utf-8', { fatal: true }).decode(bincode.bytes.decode(reader)),
+  } as FieldCodec<string>,
+
+  /** [u8; N]: exactly N bytes, no length prefix */
+  fixedBytes(length: number): FieldCodec<Uint8Array> {
+    return {
+      encode: (value, writer) => {
+        if (value.length !== length) {
+          throw new TesseraError(
+            ErrorCode.InvalidTransaction,
+            `Expected ${length} bytes, got ${value.length}`
+          );
+        }
+        writer.write(value);
+      },
+      decode: (reader) => reader.read(length),
+    };
+  },
+
+  /** Option<T>: 0 for None, 1 followed by the value for Some */
+  option<T>(inner: FieldCodec<T>): FieldCodec<T | null> {
+    return {
+      encode: (value, writer) => {
+        if (value === null) {
+          bincode.u8.encode(0, writer);
+        } else {
+          bincode.u8.encode(1, writer);
+          inner.encode(value, writer);
+        }
+      },
+      decode: (reader) => {
+        const tag = bincode.u8.decode(reader);
+        if (tag === 0) return null;
+        if (tag === 1) return inner.decode(reader);
+        throw new TesseraError(ErrorCode.InvalidTransaction, `Invalid Option tag ${tag}`);
+      },
+    };
+  },
+
+  /** Unit-variant enum encoded as its u32 variant index */
+  enumU32<T extends number>(variants: readonly T[]): FieldCodec<T> {
+    return {
+      encode: (value, writer) => bincode.u32.encode(value, writer),
+      decode: (reader) => {
+        const value = bincode.u32.decode(reader) as T;
+        if (!variants.includes(value)) {
+          throw new TesseraError(ErrorCode.InvalidTransaction, `Unknown enum variant ${value}`);
+        }
+        return value;
+      },
+    };
+  },
+
+  /** Struct: fields encoded in declaration order */
+  struct<T>(fields: { [K in keyof T]: FieldCodec<T[K]> }, order: (keyof T)[]): FieldCodec<T> {
+    return {
+      encode: (value, writer) => {
+        for (const key of order) fields[key].encode(value[key], writer);
+      },
+      decode: (reader) => {
+        const value = {} as T;
+        for (const key of order) value[key] = fields[key].decode(reader);
+        return value;
+      },
+    };
+  },
+};
+
+const transactionFields: { [K in keyof Transaction]: FieldCodec<Transaction[K]> } = {
+  txType: bincode.enumU32([
+    TxType.Transfer,
+    TxType.Stake,
+    TxType.Unstake,
+    TxType.SubmitProposal,
+    TxType.Vote,
+  ]),
+  chainId: bincode.string,
+  from: bincode.fixedBytes(32),
+  to: bincode.fixedBytes(32),
+  amount: bincode.u64,
+  payload: bincode.option(bincode.bytes),
+  nonce: bincode.u64,
+  timestamp: bincode.u64,
+  signature: bincode.fixedBytes(64),
+};
+
+/**
+ * Transaction fields in serialization order
+ */
+export const TRANSACTION_FIELDS: readonly (keyof Transaction)[] = [
+  'txType',
+  'chainId',
+  'from',
+  'to',
+  'amount',
+  'payload',
+  'nonce',
+  'timestamp',
+  'signature',
+];
+
+/**
+ * Codec for the Rust `Transaction` struct
+ */
+export const TransactionCodec: FieldCodec<Transaction> = bincode.struct<Transaction>(
+  transactionFields,
+  [...TRANSACTION_FIELDS]
+);
+
+/**
+ * A transaction field whose serialized bytes differ (hex-encoded)
+ */
+export interface TransactionFieldDiff {
+  field: keyof Transaction;
+  local: string;
+  remote: string;
+}
+
+/**
+ * Compare two transactions field by field on their serialized bytes
+ */
+export function diffTransactions(local: Transaction, remote: Transaction): TransactionFieldDiff[] {
+  const diffs: TransactionFieldDiff[] = [];
+  for (const field of TRANSACTION_FIELDS) {
+    const codec = transactionFields[field] as FieldCodec<Transaction[typeof field]>;
+    const a = bytesToHex(encode(codec, local[field]));
+    const b = bytesToHex(encode(codec, remote[field]));
+    if (a !== b) diffs.push({ field, local: a, remote: b });
+  }
+  return diffs;
+}
+
+/**
+ * Encode a value with a codec
+ */
+export function encode<T>(codec: FieldCodec<T>, value: T): Uint8Array {
+  const writer = new BincodeWriter();
+  codec.encode(value, writer);
+  return writer.finish();
+}
+
+/**
+ * Decode a value with a codec, rejecting trailing bytes
+ */
+export function decode<T>(codec: FieldCodec<T>, bytes: Uint8Array): T {
+  const reader = new BincodeReader(bytes);
+  const value = codec.decode(reader);
+  if (reader.remaining > 0) {
+    throw new TesseraError(
+      ErrorCode.InvalidTransaction,
+      `${reader.remaining} trailing bytes after decoded value`
+    );
+  }
+  return value;
+}
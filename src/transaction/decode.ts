@@ -0,0 +1,207 @@
+/**
+ * Typed decoding of transaction payloads
+ */
+
+import {
+  Transaction,
+  TransactionJson,
+  TxType,
+  VoteOption,
+  VotePayload,
+  ProposalPayload,
+  ParamChange,
+  TesseraError,
+  ErrorCode,
+} from '../types/index.js';
+import { TX_TYPE_NAMES, calculateHash, jsonToTransaction } from './index.js';
+
+interface DecodedTransactionBase extends Omit<Transaction, 'txType' | 'payload'> {
+  /** Hash computed from the decoded fields */
+  hash: string;
+  /** Payload bytes as carried by the transaction */
+  rawPayload: Uint8Array | null;
+}
+
+/**
+ * Decoded transfer
+ */
+export interface DecodedTransfer extends DecodedTransactionBase {
+  txType: TxType.Transfer;
+  /** UTF-8 memo, or null when the payload is absent or binary */
+  memo: string | null;
+}
+
+/**
+ * Decoded stake (no payload)
+ */
+export interface DecodedStake extends DecodedTransactionBase {
+  txType: TxType.Stake;
+}
+
+/**
+ * Decoded unstake (no payload)
+ */
+export interface DecodedUnstake extends DecodedTransactionBase {
+  txType: TxType.Unstake;
+}
+
+/**
+ * Decoded proposal submission
+ */
+export interface DecodedSubmitProposal extends DecodedTransactionBase {
+  txType: TxType.SubmitProposal;
+  proposal: ProposalPayload;
+}
+
+/**
+ * Decoded governance vote
+ */
+export interface DecodedVote extends DecodedTransactionBase {
+  txType: TxType.Vote;
+  vote: VotePayload;
+}
+
+/**
+ * Transaction with its payload decoded according to `txType`
+ */
+export type DecodedTransaction =
+  | DecodedTransfer
+  | DecodedStake
+  | DecodedUnstake
+  | DecodedSubmitProposal
+  | DecodedVote;
+
+const VOTE_OPTIONS = new Set<string>(Object.values(VoteOption));
+
+function invalidPayload(txType: TxType, reason: string): TesseraError {
+  return new TesseraError(
+    ErrorCode.InvalidTransaction,
+    `Invalid ${TX_TYPE_NAMES[txType]} payload: ${reason}`,
+    { txType: TX_TYPE_NAMES[txType], reason }
+  );
+}
+
+/**
+ * Parse a payload as a JSON object with exactly the given keys
+ */
+function parseObject(
+  txType: TxType,
+  payload: Uint8Array | null,
+  keys: string[]
+): Record<string, unknown> {
+  if (!payload) {
+    throw invalidPayload(txType, 'payload is missing');
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(payload));
+  } catch {
+    throw invalidPayload(txType, 'payload is not UTF-8 JSON');
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw invalidPayload(txType, 'payload is not a JSON object');
+  }
+
+  const actual = Object.keys(value);
+  const missing = keys.filter((key) => !actual.includes(key));
+  const unknown = actual.filter((key) => !keys.includes(key));
+  if (missing.length > 0) {
+    throw invalidPayload(txType, `missing ${missing.join(', ')}`);
+  }
+  if (unknown.length > 0) {
+    throw invalidPayload(txType, `unexpected ${unknown.join(', ')}`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Decode a vote payload (`{"proposal_id": number, "option": VoteOption}`)
+ */
+export function decodeVotePayload(payload: Uint8Array | null): VotePayload {
+  const value = parseObject(TxType.Vote, payload, ['proposal_id', 'option']);
+
+  const { proposal_id: proposalId, option } = value;
+  if (typeof proposalId !== 'number' || !Number.isSafeInteger(proposalId) || proposalId < 0) {
+    throw invalidPayload(TxType.Vote, 'proposal_id must be a non-negative integer');
+  }
+  if (typeof option !== 'string' || !VOTE_OPTIONS.has(option)) {
+    throw invalidPayload(TxType.Vote, `unknown vote option ${JSON.stringify(option)}`);
+  }
+
+  return { proposalId: BigInt(proposalId), option: option as VoteOption };
+}
+
+/**
+ * Decode a proposal payload (JSON-encoded `ProposalPayload`)
+ */
+export function decodeProposalPayload(payload: Uint8Array | null): ProposalPayload {
+  const value = parseObject(TxType.SubmitProposal, payload, ['title', 'description', 'changes']);
+
+  const { title, description, changes } = value;
+  if (typeof title !== 'string') {
+    throw invalidPayload(TxType.SubmitProposal, 'title must be a string');
+  }
+  if (typeof description !== 'string') {
+    throw invalidPayload(TxType.SubmitProposal, 'description must be a string');
+  }
+  if (!Array.isArray(changes)) {
+    throw invalidPayload(TxType.SubmitProposal, 'changes must be an array');
+  }
+
+  return {
+    title,
+    description,
+    changes: changes.map((change: unknown, index): ParamChange => {
+      const entry = change as Partial<ParamChange> | null;
+      if (
+        typeof entry !== 'object' ||
+        entry === null ||
+        typeof entry.param !== 'string' ||
+        (typeof entry.value !== 'number' && typeof entry.value !== 'string') ||
+        Object.keys(entry).length !== 2
+      ) {
+        throw invalidPayload(
+          TxType.SubmitProposal,
+          `changes[${index}] must be {"param": string, "value": number | string}`
+        );
+      }
+      return { param: entry.param, value: entry.value };
+    }),
+  };
+}
+
+/**
+ * Decode a JSON transaction into a typed transaction with a parsed payload
+ * @throws TesseraError with ErrorCode.InvalidTransaction for unknown types or
+ *   payloads that don't match the transaction type
+ */
+export function decodeTransaction(json: TransactionJson): DecodedTransaction {
+  const transaction = jsonToTransaction(json);
+  const { txType, payload, ...fields } = transaction;
+  const base = { ...fields, hash: calculateHash(transaction), rawPayload: payload };
+
+  switch (txType) {
+    case TxType.Transfer:
+      return { ...base, txType, memo: decodeMemo(payload) };
+    case TxType.Stake:
+    case TxType.Unstake:
+      if (payload) {
+        throw invalidPayload(txType, 'payload must be empty');
+      }
+      return { ...base, txType };
+    case TxType.SubmitProposal:
+      return { ...base, txType, proposal: decodeProposalPayload(payload) };
+    case TxType.Vote:
+      return { ...base, txType, vote: decodeVotePayload(payload) };
+  }
+}
+
+function decodeMemo(payload: Uint8Array | null): string | null {
+  if (!payload) return null;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(payload);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Unsigned transaction envelopes for offline (air-gapped) signing
+ *
+ * An envelope is created online with the chain ID and nonce filled in, moved
+ * to the signer as JSON or as a compact base64url string (small enough for a
+ * QR code), signed offline and broadcast online.
+ */
+
+import { Transaction, TransactionJson, TxType, TesseraError, ErrorCode } from '../types/index.js';
+import { KeyPair } from '../crypto/keys.js';
+import { TOKEN_DECIMALS, TOKEN_SYMBOL } from '../utils/constants.js';
+import { base64UrlToBytes, bytesToBase64Url, bytesToHex, formatAmount } from '../utils/format.js';
+import { TransactionBuilder, calculateFee, transactionToJson } from './index.js';
+import { TransactionCodec, FieldCodec, bincode, encode, decode } from './codec.js';
+import { decodeTransaction } from './decode.js';
+
+/**
+ * Current envelope format version
+ */
+export const ENVELOPE_VERSION = 1;
+
+/**
+ * Portable transaction envelope (JSON-safe)
+ */
+export interface TransactionEnvelope {
+  version: typeof ENVELOPE_VERSION;
+  chainId: string;
+  from: string;
+  nonce: string;
+  fee: string;
+  /** Human-readable description, derived from the transaction */
+  summary: string;
+  /** Token decimals used in the summary */
+  decimals: number;
+  /** Token symbol used in the summary */
+  symbol: string;
+  signed: boolean;
+  transaction: TransactionJson;
+}
+
+/**
+ * How amounts are displayed in an envelope summary
+ */
+export interface EnvelopeDisplayOptions {
+  /** Token decimals (default: TOKEN_DECIMALS) */
+  decimals?: number;
+  /** Token symbol (default: TOKEN_SYMBOL) */
+  symbol?: string;
+}
+
+interface CompactEnvelope {
+  version: number;
+  decimals: number;
+  symbol: string;
+  transaction: Transaction;
+}
+
+const CompactEnvelopeCodec: FieldCodec<CompactEnvelope> = bincode.struct<CompactEnvelope>(
+  {
+    version: bincode.u8,
+    decimals: bincode.u8,
+    symbol: bincode.string,
+    transaction: TransactionCodec,
+  },
+  ['version', 'decimals', 'symbol', 'transaction']
+);
+
+/**
+ * Describe a transaction for the person approving it
+ */
+export function describeTransaction(
+  tx: Transaction,
+  { decimals = TOKEN_DECIMALS, symbol = TOKEN_SYMBOL }: EnvelopeDisplayOptions = {}
+): string {
+  const amount = (value: bigint) => `${formatAmount(value, decimals)} ${symbol}`;
+  const decoded = decodeTransaction(transactionToJson(tx));
+
+  let action: string;
+  switch (decoded.txType) {
+    case TxType.Transfer:
+      action = `Transfer ${amount(decoded.amount)} to ${bytesToHex(tx.to)}`;
+      if (decoded.memo !== null) {
+        action += ` with memo ${JSON.stringify(decoded.memo)}`;
+      } else if (decoded.rawPayload) {
+        action += ` with ${decoded.rawPayload.length}-byte payload`;
+      }
+      break;
+    case TxType.Stake:
+      action = `Stake ${amount(decoded.amount)}`;
+      break;
+    case TxType.Unstake:
+      action = `Unstake ${amount(decoded.amount)}`;
+      break;
+    case TxType.SubmitProposal:
+      action =
+        `Submit proposal ${JSON.stringify(decoded.proposal.title)} ` +
+        `(${decoded.proposal.changes.length} changes) with ${amount(decoded.amount)} deposit`;
+      break;
+    case TxType.Vote:
+      action = `Vote ${decoded.vote.option} on proposal #${decoded.vote.proposalId}`;
+      break;
+  }
+
+  return `${action} on ${tx.chainId}, nonce ${tx.nonce}, fee ${amount(calculateFee(tx))}`;
+}
+
+/**
+ * Wrap a transaction built with TransactionBuilder in an envelope
+ */
+export function createEnvelope(
+  tx: Transaction,
+  options: EnvelopeDisplayOptions = {}
+): TransactionEnvelope {
+  const decimals = options.decimals ?? TOKEN_DECIMALS;
+  const symbol = options.symbol ?? TOKEN_SYMBOL;
+  const transaction = transactionToJson(tx);
+
+  return {
+    version: ENVELOPE_VERSION,
+    chainId: tx.chainId,
+    from: transaction.from,
+    nonce: transaction.nonce,
+    fee: transaction.fee ?? calculateFee(tx).toString(),
+    summary: describeTransaction(tx, { decimals, symbol }),
+    decimals,
+    symbol,
+    signed: tx.signature.some((byte) => byte !== 0),
+    transaction,
+  };
+}
+
+/**
+ * Encode an envelope as compact base64url
+ */
+export function encodeEnvelope(envelope: TransactionEnvelope): string {
+  const checked = decodeEnvelope(envelope);
+  return bytesToBase64Url(
+    encode(CompactEnvelopeCodec, {
+      version: checked.version,
+      decimals: checked.decimals,
+      symbol: checked.symbol,
+      transaction: decodeTransactionFields(checked.transaction),
+    })
+  );
+}
+
+/**
+ * Parse an envelope from JSON, compact base64url or an object.
+ * Derived fields (summary, fee, nonce, ...) are recomputed from the
+ * transaction and must match. The envelope's `decimals` and `symbol` are not
+ * authenticated: pass the reader's own `display` settings to reject envelopes
+ * whose summary would render amounts differently.
+ * @throws TesseraError with ErrorCode.InvalidTransaction for malformed envelopes
+ */
+export function decodeEnvelope(
+  input: string | TransactionEnvelope,
+  display?: EnvelopeDisplayOptions
+): TransactionEnvelope {
+  const decoded = parseEnvelope(input);
+  if (display) {
+    const expected = {
+      decimals: display.decimals ?? TOKEN_DECIMALS,
+      symbol: display.symbol ?? TOKEN_SYMBOL,
+    };
+    for (const field of ['decimals', 'symbol'] as const) {
+      if (decoded[field] !== expected[field]) {
+        throw new TesseraError(
+          ErrorCode.InvalidTransaction,
+          `Envelope ${field} ${decoded[field]} differs from the expected ${expected[field]}`,
+          { field, envelope: decoded[field], expected: expected[field] }
+        );
+      }
+    }
+  }
+  return decoded;
+}
+
+function parseEnvelope(input: string | TransactionEnvelope): TransactionEnvelope {
+  let envelope: TransactionEnvelope;
+  if (typeof input !== 'string') {
+    envelope = input;
+  } else if (input.trimStart().startsWith('{')) {
+    try {
+      envelope = JSON.parse(input) as TransactionEnvelope;
+    } catch {
+      throw new TesseraError(ErrorCode.InvalidTransaction, 'Envelope is not valid JSON');
+    }
+  } else {
+    const compact = decode(CompactEnvelopeCodec, base64UrlToBytes(input.trim()));
+    assertVersion(compact.version);
+    return createEnvelope(compact.transaction, compact);
+  }
+
+  if (typeof envelope !== 'object' || envelope === null || !envelope.transaction) {
+    throw new TesseraError(ErrorCode.InvalidTransaction, 'Envelope has no transaction');
+  }
+  assertVersion(envelope.version);
+  const rebuilt = createEnvelope(decodeTransactionFields(envelope.transaction), envelope);
+  for (const field of ['chainId', 'from', 'nonce', 'fee', 'summary', 'signed'] as const) {
+    if (envelope[field] !== rebuilt[field]) {
+      throw new TesseraError(
+        ErrorCode.InvalidTransaction,
+        `Envelope ${field} does not match its transaction`,
+        { field, envelope: envelope[field], transaction: rebuilt[field] }
+      );
+    }
+  }
+  return rebuilt;
+}
+
+/**
+ * Sign an unsigned envelope offline. The summary is rebuilt with the signer's
+ * `display` settings (default: TOKEN_DECIMALS and TOKEN_SYMBOL); envelopes
+ * using other settings are refused.
+ * @throws TesseraError with ErrorCode.SigningError when the key is not the sender's
+ */
+export function signEnvelope(
+  envelope: string | TransactionEnvelope,
+  keyPair: KeyPair,
+  display: EnvelopeDisplayOptions = {}
+): TransactionEnvelope {
+  const unsigned = decodeEnvelope(envelope, display);
+  if (unsigned.signed) {
+    throw new TesseraError(ErrorCode.InvalidTransaction, 'Envelope is already signed');
+  }
+  if (unsigned.from !== keyPair.address) {
+    throw new TesseraError(
+      ErrorCode.SigningError,
+      `Envelope is for ${unsigned.from}, key is ${keyPair.address}`
+    );
+  }
+
+  const signed = new TransactionBuilder(keyPair).sign(
+    decodeTransactionFields(unsigned.transaction)
+  );
+  return createEnvelope(signed, unsigned);
+}
+
+function assertVersion(version: unknown): void {
+  if (version !== ENVELOPE_VERSION) {
+    throw new TesseraError(
+      ErrorCode.InvalidTransaction,
+      `Unsupported envelope version ${String(version)}`,
+      { version }
+    );
+  }
+}
+
+/**
+ * Strictly decode the envelope's transaction back into `Transaction` fields
+ */
+function decodeTransactionFields(json: TransactionJson): Transaction {
+  const { rawPayload, ...decoded } = decodeTransaction(json);
+  return {
+    txType: decoded.txType,
+    chainId: decoded.chainId,
+    from: decoded.from,
+    to: decoded.to,
+    amount: decoded.amount,
+    payload: rawPayload,
+    nonce: decoded.nonce,
+    timestamp: decoded.timestamp,
+    signature: decoded.signature,
+  };
+}
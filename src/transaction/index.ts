@@ -13,6 +13,7 @@ import {
 } from '../types/index.js';
 import { KeyPair } from '../crypto/keys.js';
 import { hash } from '../crypto/hash.js';
+import { TransactionCodec, encode, decode } from './codec.js';
 import {
   bytesToHex,
   hexToBytes,
@@ -86,11 +87,16 @@ export interface VoteOptions {
  * Transaction builder for creating and signing Tessera transactions
  */
 export class TransactionBuilder {
-  private readonly keyPair: KeyPair;
+  private readonly keyPair: KeyPair | null;
+  private readonly publicKey: Uint8Array;
   private readonly defaultChainId: string;
 
-  constructor(keyPair: KeyPair, defaultChainId = '') {
-    this.keyPair = keyPair;
+  /**
+   * @param signer - Key pair, or an address to build unsigned transactions only
+   */
+  constructor(signer: KeyPair | string, defaultChainId = '') {
+    this.keyPair = typeof signer === 'string' ? null : signer;
+    this.publicKey = typeof signer === 'string' ? parseAddress(signer) : signer.publicKey;
     this.defaultChainId = defaultChainId;
   }
 
@@ -98,7 +104,7 @@ export class TransactionBuilder {
    * Get the address (public key) of this builder
    */
   get address(): string {
-    return this.keyPair.address;
+    return bytesToHex(this.publicKey);
   }
 
   /**
@@ -111,7 +117,7 @@ export class TransactionBuilder {
     return {
       txType: TxType.Transfer,
       chainId: options.chainId ?? this.defaultChainId,
-      from: this.keyPair.publicKey,
+      from: this.publicKey,
       to: parseAddress(options.to),
       amount: options.amount,
       payload,
@@ -128,8 +134,8 @@ export class TransactionBuilder {
     return {
       txType: TxType.Stake,
       chainId: options.chainId ?? this.defaultChainId,
-      from: this.keyPair.publicKey,
-      to: this.keyPair.publicKey, // to = from for staking
+      from: this.publicKey,
+      to: this.publicKey, // to = from for staking
       amount: options.amount,
       payload: null,
       nonce: options.nonce,
@@ -145,8 +151,8 @@ export class TransactionBuilder {
     return {
       txType: TxType.Unstake,
       chainId: options.chainId ?? this.defaultChainId,
-      from: this.keyPair.publicKey,
-      to: this.keyPair.publicKey, // to = from for unstaking
+      from: this.publicKey,
+      to: this.publicKey, // to = from for unstaking
       amount: options.amount,
       payload: null,
       nonce: options.nonce,
@@ -171,8 +177,8 @@ export class TransactionBuilder {
     return {
       txType: TxType.SubmitProposal,
       chainId: options.chainId ?? this.defaultChainId,
-      from: this.keyPair.publicKey,
-      to: this.keyPair.publicKey,
+      from: this.publicKey,
+      to: this.publicKey,
       amount: options.deposit,
       payload: payloadBytes,
       nonce: options.nonce,
@@ -195,8 +201,8 @@ export class TransactionBuilder {
     return {
       txType: TxType.Vote,
       chainId: options.chainId ?? this.defaultChainId,
-      from: this.keyPair.publicKey,
-      to: this.keyPair.publicKey,
+      from: this.publicKey,
+      to: this.publicKey,
       amount: 0n,
       payload: payloadBytes,
       nonce: options.nonce,
@@ -209,6 +215,12 @@ export class TransactionBuilder {
    * Sign a transaction
    */
   sign(tx: Transaction): Transaction {
+    if (!this.keyPair) {
+      throw new TesseraError(
+        ErrorCode.SigningError,
+        `Builder for ${this.address} has no private key`
+      );
+    }
     const bytesToSign = serializeForSigning(tx);
     const signature = this.keyPair.sign(bytesToSign);
 
@@ -283,73 +295,24 @@ export class TransactionBuilder {
 
 /**
  * Serialize a transaction for signing
- * This must match the Rust bincode serialization format
+ * Same encoding as serializeTransaction, with the signature zeroed
  */
 export function serializeForSigning(tx: Transaction): Uint8Array {
-  const parts: Uint8Array[] = [];
-
-  // tx_type (u32 in bincode format, little-endian)
-  parts.push(encodeU32(tx.txType));
-
-  // chain_id (length-prefixed string)
-  const chainIdBytes = new TextEncoder().encode(tx.chainId);
-  parts.push(encodeU64(BigInt(chainIdBytes.length)));
-  parts.push(chainIdBytes);
-
-  // from (32 bytes)
-  parts.push(tx.from);
-
-  // to (32 bytes)
-  parts.push(tx.to);
-
-  // amount (u64)
-  parts.push(encodeU64(tx.amount));
-
-  // payload (Option<Vec<u8>>)
-  if (tx.payload === null) {
-    parts.push(new Uint8Array([0])); // None
-  } else {
-    parts.push(new Uint8Array([1])); // Some
-    parts.push(encodeU64(BigInt(tx.payload.length)));
-    parts.push(tx.payload);
-  }
-
-  // nonce (u64)
-  parts.push(encodeU64(tx.nonce));
-
-  // timestamp (u64)
-  parts.push(encodeU64(tx.timestamp));
-
-  // signature (64 bytes of zeros for signing)
-  parts.push(new Uint8Array(64));
-
-  // Concatenate all parts
-  const totalLength = parts.reduce((sum, p) => sum + p.length, 0);
-  const result = new Uint8Array(totalLength);
-  let offset = 0;
-  for (const part of parts) {
-    result.set(part, offset);
-    offset += part.length;
-  }
-
-  return result;
+  return encode(TransactionCodec, { ...tx, signature: new Uint8Array(64) });
 }
 
 /**
- * Encode a u64 as little-endian bytes
+ * Serialize full transaction (including signature)
  */
-function encodeU32(value: number): Uint8Array {
-  const buffer = new ArrayBuffer(4);
-  const view = new DataView(buffer);
-  view.setUint32(0, value, true); // little-endian
-  return new Uint8Array(buffer);
+export function serializeTransaction(tx: Transaction): Uint8Array {
+  return encode(TransactionCodec, tx);
 }
 
-function encodeU64(value: bigint): Uint8Array {
-  const buffer = new ArrayBuffer(8);
-  const view = new DataView(buffer);
-  view.setBigUint64(0, value, true); // little-endian
-  return new Uint8Array(buffer);
+/**
+ * Deserialize a transaction from its bincode encoding
+ */
+export function deserializeTransaction(bytes: Uint8Array): Transaction {
+  return decode(TransactionCodec, bytes);
 }
 
 // ============================================================================
@@ -387,59 +350,26 @@ export function calculateHash(tx: Transaction): string {
 }
 
 /**
- * Serialize full transaction (including signature)
+ * Transaction type names used in JSON (`TransactionJson.tx_type`)
  */
-export function serializeTransaction(tx: Transaction): Uint8Array {
-  const parts: Uint8Array[] = [];
-
-  // Same as serializeForSigning but with actual signature
-  parts.push(new Uint8Array([tx.txType]));
-
-  const chainIdBytes = new TextEncoder().encode(tx.chainId);
-  parts.push(encodeU64(BigInt(chainIdBytes.length)));
-  parts.push(chainIdBytes);
-
-  parts.push(tx.from);
-  parts.push(tx.to);
-  parts.push(encodeU64(tx.amount));
-
-  if (tx.payload === null) {
-    parts.push(new Uint8Array([0]));
-  } else {
-    parts.push(new Uint8Array([1]));
-    parts.push(encodeU64(BigInt(tx.payload.length)));
-    parts.push(tx.payload);
-  }
-
-  parts.push(encodeU64(tx.nonce));
-  parts.push(encodeU64(tx.timestamp));
-  parts.push(tx.signature); // Actual signature
-
-  const totalLength = parts.reduce((sum, p) => sum + p.length, 0);
-  const result = new Uint8Array(totalLength);
-  let offset = 0;
-  for (const part of parts) {
-    result.set(part, offset);
-    offset += part.length;
-  }
-
-  return result;
-}
+export const TX_TYPE_NAMES: Readonly<Record<TxType, string>> = {
+  [TxType.Transfer]: 'transfer',
+  [TxType.Stake]: 'stake',
+  [TxType.Unstake]: 'unstake',
+  [TxType.SubmitProposal]: 'submit_proposal',
+  [TxType.Vote]: 'vote',
+};
+
+const TX_TYPES_BY_NAME = new Map(
+  Object.entries(TX_TYPE_NAMES).map(([txType, name]) => [name, Number(txType) as TxType])
+);
 
 /**
  * Convert Transaction to JSON format for RPC
  */
 export function transactionToJson(tx: Transaction): TransactionJson {
-  const txTypeMap: Record<TxType, string> = {
-    [TxType.Transfer]: 'transfer',
-    [TxType.Stake]: 'stake',
-    [TxType.Unstake]: 'unstake',
-    [TxType.SubmitProposal]: 'submit_proposal',
-    [TxType.Vote]: 'vote',
-  };
-
   return {
-    tx_type: txTypeMap[tx.txType],
+    tx_type: TX_TYPE_NAMES[tx.txType],
     chain_id: tx.chainId,
     from: bytesToHex(tx.from),
     to: bytesToHex(tx.to),
@@ -455,18 +385,20 @@ export function transactionToJson(tx: Transaction): TransactionJson {
 
 /**
  * Convert JSON format to Transaction
+ * @throws TesseraError with ErrorCode.InvalidTransaction for unknown transaction types
  */
 export function jsonToTransaction(json: TransactionJson): Transaction {
-  const txTypeMap: Record<string, TxType> = {
-    transfer: TxType.Transfer,
-    stake: TxType.Stake,
-    unstake: TxType.Unstake,
-    submit_proposal: TxType.SubmitProposal,
-    vote: TxType.Vote,
-  };
+  const txType = TX_TYPES_BY_NAME.get(json.tx_type);
+  if (txType === undefined) {
+    throw new TesseraError(
+      ErrorCode.InvalidTransaction,
+      `Unknown transaction type ${JSON.stringify(json.tx_type)}`,
+      { txType: json.tx_type }
+    );
+  }
 
   return {
-    txType: txTypeMap[json.tx_type] ?? TxType.Transfer,
+    txType,
     chainId: json.chain_id,
     from: hexToBytes(json.from),
     to: hexToBytes(json.to),
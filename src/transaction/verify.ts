@@ -0,0 +1,97 @@
+/**
+ * Transaction signature verification
+ */
+
+import { Transaction, TransactionJson, Block } from '../types/index.js';
+import { KeyPair } from '../crypto/keys.js';
+import { calculateHash, jsonToTransaction, serializeForSigning } from './index.js';
+
+/**
+ * Why a transaction failed verification
+ *
+ * - `malformed`: fields could not be parsed or have the wrong length
+ * - `unsigned`: the signature is all zeros
+ * - `invalid_signature`: the signature was not produced by the `from` key
+ * - `hash_mismatch`: the JSON `hash` does not match the transaction's fields
+ */
+export type VerificationFailureReason =
+  | 'malformed'
+  | 'unsigned'
+  | 'invalid_signature'
+  | 'hash_mismatch';
+
+/**
+ * Result of verifying a single transaction
+ */
+export type TransactionVerification =
+  | { valid: true; hash: string }
+  | { valid: false; hash: string | null; reason: VerificationFailureReason; message: string };
+
+/**
+ * Result of verifying every transaction in a block
+ */
+export interface BlockVerification {
+  /** True when every transaction verified */
+  valid: boolean;
+  /** Per-transaction results, in block order */
+  results: (TransactionVerification & { index: number })[];
+  /** Number of transactions that failed */
+  invalidCount: number;
+}
+
+function parse(tx: Transaction | TransactionJson): Transaction {
+  if (!('tx_type' in tx)) return tx;
+  return jsonToTransaction(tx);
+}
+
+/**
+ * Verify that a transaction was signed by its `from` key
+ */
+export function verifyTransaction(tx: Transaction | TransactionJson): TransactionVerification {
+  let transaction: Transaction;
+  let signingBytes: Uint8Array;
+  let hash: string;
+  try {
+    transaction = parse(tx);
+    signingBytes = serializeForSigning(transaction);
+    hash = calculateHash(transaction);
+  } catch (error) {
+    return {
+      valid: false,
+      hash: null,
+      reason: 'malformed',
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  if ('tx_type' in tx && tx.hash !== undefined && tx.hash.toLowerCase() !== hash) {
+    return {
+      valid: false,
+      hash,
+      reason: 'hash_mismatch',
+      message: `Transaction claims hash ${tx.hash}, fields hash to ${hash}`,
+    };
+  }
+  if (transaction.signature.every((byte) => byte === 0)) {
+    return { valid: false, hash, reason: 'unsigned', message: 'Transaction is not signed' };
+  }
+  if (!KeyPair.verify(transaction.from, signingBytes, transaction.signature)) {
+    return {
+      valid: false,
+      hash,
+      reason: 'invalid_signature',
+      message: 'Signature does not match the sender public key',
+    };
+  }
+  return { valid: true, hash };
+}
+
+/**
+ * Verify the signatures of all transactions in a block
+ */
+export function verifyBlockTransactions(block: Block | TransactionJson[]): BlockVerification {
+  const transactions = Array.isArray(block) ? block : block.transactions;
+  const results = transactions.map((tx, index) => ({ ...verifyTransaction(tx), index }));
+  const invalidCount = results.filter((result) => !result.valid).length;
+  return { valid: invalidCount === 0, results, invalidCount };
+}
@@ -58,6 +58,26 @@ export interface TransactionReceipt {
   blockHeight?: bigint;
   blockHash?: string;
   fee: bigint;
+  /** Position of the transaction in its block */
+  index?: number;
+  /** Whether the transaction is still waiting in the mempool */
+  inMempool?: boolean;
+  /** Inclusion proof against the block's transactionsRoot */
+  proof?: MerkleProof;
+}
+
+/**
+ * Merkle inclusion proof (hex-encoded hashes)
+ */
+export interface MerkleProof {
+  /** Leaf hash (the transaction hash) */
+  leaf: string;
+  /** Leaf position; bit i selects whether siblings[i] is on the left (1) or right (0) */
+  index: number;
+  /** Sibling hashes from the leaf level upwards */
+  siblings: string[];
+  /** Merkle root the proof resolves to */
+  root: string;
 }
 
 // ============================================================================
@@ -204,13 +224,20 @@ export interface NetworkIdentity {
  * Network status information
  */
 export interface NetworkStatus {
-  chainId: string;
-  networkId: string;
-  genesisHash: string;
+  /** Only set when reported by the node (see getNetworkIdentity) */
+  chainId?: string;
+  networkId?: string;
+  genesisHash?: string;
   blockHeight: bigint;
-  blockTime: bigint;
-  peerCount: number;
-  isSyncing: boolean;
+  mempoolSize: number;
+  totalTransactions: bigint;
+  stateRoot: string;
+  /** Latest block timestamp (Unix seconds), when reported by the node */
+  blockTime?: bigint;
+  /** Connected peers, when reported by the node */
+  peerCount?: number;
+  /** Whether the node reports itself as syncing (see getSyncStatus for a derived view) */
+  isSyncing?: boolean;
 }
 
 /**
@@ -241,17 +268,29 @@ export enum ErrorCode {
   NetworkError = 'NETWORK_ERROR',
   RpcError = 'RPC_ERROR',
   Timeout = 'TIMEOUT',
+  Aborted = 'ABORTED',
+  InvalidResponse = 'INVALID_RESPONSE',
+  UnknownNetwork = 'UNKNOWN_NETWORK',
+  NotFound = 'NOT_FOUND',
 
   // Validation errors
   InvalidAddress = 'INVALID_ADDRESS',
   InvalidSignature = 'INVALID_SIGNATURE',
   InvalidTransaction = 'INVALID_TRANSACTION',
   InvalidMnemonic = 'INVALID_MNEMONIC',
+  HashMismatch = 'HASH_MISMATCH',
+  InvalidArgument = 'INVALID_ARGUMENT',
 
   // State errors
   InsufficientBalance = 'INSUFFICIENT_BALANCE',
   InvalidNonce = 'INVALID_NONCE',
   AccountNotFound = 'ACCOUNT_NOT_FOUND',
+  ChainReorg = 'CHAIN_REORG',
+  ChainMismatch = 'CHAIN_MISMATCH',
+  StateChanged = 'STATE_CHANGED',
+  HistoricalStateUnavailable = 'HISTORICAL_STATE_UNAVAILABLE',
+  DuplicateTransaction = 'DUPLICATE_TRANSACTION',
+  MempoolFull = 'MEMPOOL_FULL',
 
   // Crypto errors
   SigningError = 'SIGNING_ERROR',
@@ -49,6 +49,59 @@ export function isValidHex(hex: string): boolean {
   return /^[0-9a-fA-F]*$/.test(cleanHex) && cleanHex.length % 2 === 0;
 }
 
+// ============================================================================
+// Base64url Encoding/Decoding
+// ============================================================================
+
+const BASE64URL_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Convert bytes to unpadded base64url (RFC 4648 section 5)
+ */
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    const chars = Math.min(4, Math.ceil(((bytes.length - i) * 8) / 6));
+    for (let j = 0; j < chars; j++) {
+      result += BASE64URL_ALPHABET[(chunk >> (18 - j * 6)) & 63];
+    }
+  }
+  return result;
+}
+
+/**
+ * Convert base64url (padded or unpadded) to bytes
+ */
+export function base64UrlToBytes(text: string): Uint8Array {
+  const clean = text.replace(/=+$/, '');
+  if (clean.length % 4 === 1) {
+    throw new TesseraError(ErrorCode.InvalidTransaction, 'Invalid base64url length');
+  }
+
+  const bytes = new Uint8Array(Math.floor((clean.length * 6) / 8));
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+  for (let i = 0; i < clean.length; i++) {
+    const value = BASE64URL_ALPHABET.indexOf(clean[i]);
+    if (value === -1) {
+      throw new TesseraError(
+        ErrorCode.InvalidTransaction,
+        `Invalid base64url character at position ${i}`
+      );
+    }
+    buffer = ((buffer << 6) | value) & 0xffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[offset++] = (buffer >> bits) & 0xff;
+    }
+  }
+
+  return bytes;
+}
+
 // ============================================================================
 // Address Formatting
 // ============================================================================
@@ -112,7 +165,7 @@ export function shortenAddress(address: string, chars = 6): string {
  * Parse human-readable amount to base units (bigint)
  * e.g., "100.5" TESS -> 100500000n base units
  */
-export function parseAmount(amount: string | number): bigint {
+export function parseAmount(amount: string | number, decimals = TOKEN_DECIMALS): bigint {
   const str = typeof amount === 'number' ? amount.toString() : amount;
 
   // Split by decimal point
@@ -124,11 +177,11 @@ export function parseAmount(amount: string | number): bigint {
   const integerPart = parts[0] || '0';
   let decimalPart = parts[1] || '';
 
-  // Pad or truncate decimal part to TOKEN_DECIMALS
-  if (decimalPart.length > TOKEN_DECIMALS) {
-    decimalPart = decimalPart.slice(0, TOKEN_DECIMALS);
+  // Pad or truncate decimal part to the token's decimals
+  if (decimalPart.length > decimals) {
+    decimalPart = decimalPart.slice(0, decimals);
   } else {
-    decimalPart = decimalPart.padEnd(TOKEN_DECIMALS, '0');
+    decimalPart = decimalPart.padEnd(decimals, '0');
   }
 
   // Combine and parse
@@ -2,7 +2,7 @@
  * Tessera Wallet - High-level API for managing accounts and transactions
  */
 
-import { TesseraClient } from '../client/index.js';
+import { TesseraClient, RequestOptions } from '../client/index.js';
 import { KeyPair } from '../crypto/keys.js';
 import {
   generateMnemonicPhrase,
@@ -22,15 +22,40 @@ import {
   ErrorCode,
 } from '../types/index.js';
 import { parseAmount, formatAmount } from '../utils/format.js';
+import { Network, NetworkLike } from '../network/index.js';
+import { sleep } from '../client/retry.js';
+import {
+  ExpectedNetworkIdentity,
+  IdentityGuard,
+  assertNetworkIdentity,
+} from '../client/identity.js';
+import { Instrumentation, InstrumentationOptions } from '../client/instrumentation.js';
+import {
+  TransactionEnvelope,
+  decodeEnvelope,
+  signEnvelope,
+} from '../transaction/envelope.js';
 
 /**
  * Options for creating a wallet
  */
 export interface WalletOptions {
+  /**
+   * Network preset or configuration; provides the default client (when the
+   * network has RPC endpoints), chain ID, expected identity and token decimals
+   */
+  network?: NetworkLike;
   /** RPC client or endpoint URL */
   client?: TesseraClient | string;
   /** Default chain ID for transactions */
   chainId?: string;
+  /**
+   * Network the connected node must belong to; signing is refused on mismatch.
+   * Also provides the default chain ID.
+   */
+  expectedIdentity?: ExpectedNetworkIdentity;
+  /** Hooks for confirmation events from `wait()` (default: those of the connected client) */
+  instrumentation?: InstrumentationOptions;
 }
 
 /**
@@ -92,7 +117,7 @@ export interface PendingTransaction {
   /** Transaction hash */
   hash: string;
   /** Wait for transaction to be confirmed */
-  wait(timeoutMs?: number): Promise<TransactionReceipt>;
+  wait(timeoutMs?: number, options?: { signal?: AbortSignal }): Promise<TransactionReceipt>;
 }
 
 /**
@@ -103,17 +128,33 @@ export class Wallet {
   private readonly txBuilder: TransactionBuilder;
   private client: TesseraClient | null;
   private readonly chainId: string;
+  private readonly decimals: number | undefined;
+  private readonly symbol: string | undefined;
+  private readonly instrumentation: Instrumentation | null;
+  private expectedIdentity: ExpectedNetworkIdentity | null = null;
+  private identityGuard: IdentityGuard | null = null;
 
   private constructor(keyPair: KeyPair, options: WalletOptions = {}) {
+    const network = options.network !== undefined ? Network.get(options.network) : null;
+
     this.keyPair = keyPair;
-    this.chainId = options.chainId ?? '';
+    this.chainId =
+      options.chainId ?? options.expectedIdentity?.chainId ?? network?.chainId ?? '';
+    this.decimals = network?.decimals;
+    this.symbol = network?.symbol;
+    this.instrumentation = options.instrumentation
+      ? new Instrumentation(options.instrumentation)
+      : null;
     this.txBuilder = new TransactionBuilder(keyPair, this.chainId);
+    this.pin(options.expectedIdentity ?? network?.expectedIdentity);
 
     if (options.client) {
       this.client =
         typeof options.client === 'string'
           ? new TesseraClient(options.client)
           : options.client;
+    } else if (network && network.rpcEndpoints.length > 0) {
+      this.client = TesseraClient.forNetwork(network);
     } else {
       this.client = null;
     }
@@ -203,12 +244,62 @@ export class Wallet {
 
   /**
    * Connect wallet to an RPC client
+   * @param options.expectedIdentity - Network the node must belong to (replaces any earlier pin)
    */
-  connect(client: TesseraClient | string): this {
+  connect(
+    client: TesseraClient | string,
+    options: { expectedIdentity?: ExpectedNetworkIdentity } = {}
+  ): this {
     this.client = typeof client === 'string' ? new TesseraClient(client) : client;
+    this.pin(options.expectedIdentity ?? this.expectedIdentity ?? undefined);
     return this;
   }
 
+  /**
+   * Check the connected node against the pinned network identity (no-op when not pinned).
+   * The node is queried once per connection; later calls reuse the outcome.
+   * @throws TesseraError with ErrorCode.ChainMismatch when the node differs
+   */
+  async verifyNetworkIdentity(options?: RequestOptions): Promise<void> {
+    if (!this.identityGuard) return;
+    const client = this.getClient();
+    await this.identityGuard.verify(() => client.getNetworkIdentity(options));
+  }
+
+  /**
+   * Pin the expected network identity, including the wallet's chain ID
+   */
+  private pin(expected: ExpectedNetworkIdentity | undefined): void {
+    if (!expected) {
+      this.expectedIdentity = null;
+      this.identityGuard = null;
+      return;
+    }
+
+    if (this.chainId) {
+      assertNetworkIdentity({ chainId: expected.chainId }, { chainId: this.chainId }, 'Wallet');
+    }
+    this.expectedIdentity = {
+      ...expected,
+      chainId: expected.chainId ?? (this.chainId || undefined),
+    };
+    this.identityGuard = new IdentityGuard(this.expectedIdentity);
+  }
+
+  /**
+   * Refuse to sign for another chain or through a node on another network
+   */
+  private async verifyNetwork(chainId: string, options?: RequestOptions): Promise<void> {
+    if (!this.identityGuard) return;
+
+    assertNetworkIdentity(
+      { chainId: this.identityGuard.expected.chainId },
+      { chainId },
+      'Transaction'
+    );
+    if (this.client) await this.verifyNetworkIdentity(options);
+  }
+
   /**
    * Get the connected client (throws if not connected)
    */
@@ -229,31 +320,31 @@ export class Wallet {
   /**
    * Get account information
    */
-  async getAccount(): Promise<Account> {
-    return this.getClient().getAccount(this.address);
+  async getAccount(options?: RequestOptions): Promise<Account> {
+    return this.getClient().getAccount(this.address, options);
   }
 
   /**
    * Get wallet balance
    */
-  async getBalance(): Promise<bigint> {
-    const account = await this.getAccount();
+  async getBalance(options?: RequestOptions): Promise<bigint> {
+    const account = await this.getAccount(options);
     return account.balance;
   }
 
   /**
    * Get wallet balance as human-readable string
    */
-  async getBalanceFormatted(): Promise<string> {
-    const balance = await this.getBalance();
-    return formatAmount(balance);
+  async getBalanceFormatted(options?: RequestOptions): Promise<string> {
+    const balance = await this.getBalance(options);
+    return formatAmount(balance, this.decimals);
   }
 
   /**
    * Get current nonce
    */
-  async getNonce(): Promise<bigint> {
-    const account = await this.getAccount();
+  async getNonce(options?: RequestOptions): Promise<bigint> {
+    const account = await this.getAccount(options);
     return account.nonce;
   }
 
@@ -264,12 +355,13 @@ export class Wallet {
   /**
    * Send a transfer transaction
    */
-  async transfer(params: TransferParams): Promise<PendingTransaction> {
+  async transfer(params: TransferParams, options?: RequestOptions): Promise<PendingTransaction> {
     const client = this.getClient();
-    const nonce = (await this.getNonce()) + 1n;
+    await this.verifyNetwork(this.chainId, options);
+    const nonce = (await this.getNonce(options)) + 1n;
 
     const amount = typeof params.amount === 'string'
-      ? parseAmount(params.amount)
+      ? parseAmount(params.amount, this.decimals)
       : params.amount;
 
     const tx = this.txBuilder.signTransfer({
@@ -280,7 +372,7 @@ export class Wallet {
       chainId: this.chainId, // Always use wallet's chainId
     });
 
-    const receipt = await client.submitTransaction(transactionToJson(tx));
+    const receipt = await client.submitTransaction(transactionToJson(tx), options);
 
     return this.createPendingTransaction(receipt.hash, client);
   }
@@ -288,12 +380,13 @@ export class Wallet {
   /**
    * Stake tokens
    */
-  async stake(params: StakeParams): Promise<PendingTransaction> {
+  async stake(params: StakeParams, options?: RequestOptions): Promise<PendingTransaction> {
     const client = this.getClient();
-    const nonce = (await this.getNonce()) + 1n;
+    await this.verifyNetwork(this.chainId, options);
+    const nonce = (await this.getNonce(options)) + 1n;
 
     const amount = typeof params.amount === 'string'
-      ? parseAmount(params.amount)
+      ? parseAmount(params.amount, this.decimals)
       : params.amount;
 
     const tx = this.txBuilder.signStake({
@@ -302,7 +395,7 @@ export class Wallet {
       chainId: this.chainId,
     });
 
-    const receipt = await client.submitTransaction(transactionToJson(tx));
+    const receipt = await client.submitTransaction(transactionToJson(tx), options);
 
     return this.createPendingTransaction(receipt.hash, client);
   }
@@ -310,12 +403,13 @@ export class Wallet {
   /**
    * Unstake tokens
    */
-  async unstake(params: UnstakeParams): Promise<PendingTransaction> {
+  async unstake(params: UnstakeParams, options?: RequestOptions): Promise<PendingTransaction> {
     const client = this.getClient();
-    const nonce = (await this.getNonce()) + 1n;
+    await this.verifyNetwork(this.chainId, options);
+    const nonce = (await this.getNonce(options)) + 1n;
 
     const amount = typeof params.amount === 'string'
-      ? parseAmount(params.amount)
+      ? parseAmount(params.amount, this.decimals)
       : params.amount;
 
     const tx = this.txBuilder.signUnstake({
@@ -324,7 +418,7 @@ export class Wallet {
       chainId: this.chainId,
     });
 
-    const receipt = await client.submitTransaction(transactionToJson(tx));
+    const receipt = await client.submitTransaction(transactionToJson(tx), options);
 
     return this.createPendingTransaction(receipt.hash, client);
   }
@@ -332,12 +426,13 @@ export class Wallet {
   /**
    * Submit a governance proposal
    */
-  async submitProposal(params: ProposalParams): Promise<PendingTransaction> {
+  async submitProposal(params: ProposalParams, options?: RequestOptions): Promise<PendingTransaction> {
     const client = this.getClient();
-    const nonce = (await this.getNonce()) + 1n;
+    await this.verifyNetwork(this.chainId, options);
+    const nonce = (await this.getNonce(options)) + 1n;
 
     const deposit = typeof params.deposit === 'string'
-      ? parseAmount(params.deposit)
+      ? parseAmount(params.deposit, this.decimals)
       : params.deposit;
 
     const tx = this.txBuilder.signSubmitProposal({
@@ -349,7 +444,7 @@ export class Wallet {
       chainId: this.chainId,
     });
 
-    const receipt = await client.submitTransaction(transactionToJson(tx));
+    const receipt = await client.submitTransaction(transactionToJson(tx), options);
 
     return this.createPendingTransaction(receipt.hash, client);
   }
@@ -357,9 +452,10 @@ export class Wallet {
   /**
    * Vote on a governance proposal
    */
-  async vote(params: VoteParams): Promise<PendingTransaction> {
+  async vote(params: VoteParams, options?: RequestOptions): Promise<PendingTransaction> {
     const client = this.getClient();
-    const nonce = (await this.getNonce()) + 1n;
+    await this.verifyNetwork(this.chainId, options);
+    const nonce = (await this.getNonce(options)) + 1n;
 
     // Normalize vote option
     const optionMap: Record<string, VoteOption> = {
@@ -384,7 +480,7 @@ export class Wallet {
       chainId: this.chainId,
     });
 
-    const receipt = await client.submitTransaction(transactionToJson(tx));
+    const receipt = await client.submitTransaction(transactionToJson(tx), options);
 
     return this.createPendingTransaction(receipt.hash, client);
   }
@@ -396,11 +492,17 @@ export class Wallet {
   /**
    * Sign a transfer transaction without submitting
    */
-  async signTransfer(params: TransferParams & { nonce?: bigint; chainId?: string }) {
-    const nonce = params.nonce ?? (await this.getNonce()) + 1n;
+  async signTransfer(
+    params: TransferParams & { nonce?: bigint; chainId?: string },
+    options?: RequestOptions
+  ) {
+    const chainId = params.chainId ?? this.chainId;
+    await this.verifyNetwork(chainId, options);
+
+    const nonce = params.nonce ?? (await this.getNonce(options)) + 1n;
 
     const amount = typeof params.amount === 'string'
-      ? parseAmount(params.amount)
+      ? parseAmount(params.amount, this.decimals)
       : params.amount;
 
     const tx = this.txBuilder.signTransfer({
@@ -408,12 +510,30 @@ export class Wallet {
       amount,
       payload: params.payload,
       nonce,
-      chainId: params.chainId ?? this.chainId, // Use explicit chainId or wallet's default
+      chainId, // Explicit chainId or wallet's default
     });
 
     return transactionToJson(tx);
   }
 
+  /**
+   * Sign an envelope prepared with TesseraClient.createEnvelope.
+   * Works offline; review `envelope.summary` before calling. Amounts are
+   * displayed with the wallet network's decimals and symbol.
+   */
+  signEnvelope(envelope: string | TransactionEnvelope): TransactionEnvelope {
+    const display = { decimals: this.decimals, symbol: this.symbol };
+    const unsigned = decodeEnvelope(envelope, display);
+    if (this.chainId && unsigned.chainId !== this.chainId) {
+      throw new TesseraError(
+        ErrorCode.ChainMismatch,
+        `Envelope is for chain ${unsigned.chainId}, wallet is on ${this.chainId}`,
+        { field: 'chainId', expected: this.chainId, actual: unsigned.chainId }
+      );
+    }
+    return signEnvelope(unsigned, this.keyPair, display);
+  }
+
   /**
    * Sign arbitrary message
    */
@@ -456,25 +576,34 @@ export class Wallet {
     hash: string,
     client: TesseraClient
   ): PendingTransaction {
+    const submittedAt = Date.now();
+    const instrumentation = this.instrumentation ?? client.instrumentation;
+
     return {
       hash,
-      wait: async (timeoutMs = 60000): Promise<TransactionReceipt> => {
+      wait: async (timeoutMs = 60000, options = {}): Promise<TransactionReceipt> => {
         const startTime = Date.now();
         const pollInterval = 1000;
 
         while (Date.now() - startTime < timeoutMs) {
-          const tx = await client.getTransaction(hash);
-
-          if (tx && tx.hash) {
-            // Transaction found in a block
-            return {
-              hash: tx.hash,
-              status: 'confirmed',
-              fee: BigInt(tx.fee ?? 0),
-            };
+          // Confirmation only needs the node's in_mempool flag, not an inclusion proof
+          const receipt = await client.getTransactionReceipt(hash, {
+            signal: options.signal,
+            proof: false,
+          });
+
+          if (receipt && receipt.inMempool === false) {
+            // Transaction committed in a block (not just visible in the mempool)
+            instrumentation.emit({
+              type: 'transaction:confirmed',
+              hash: receipt.hash,
+              latencyMs: Date.now() - submittedAt,
+              blockHeight: receipt.blockHeight,
+            });
+            return receipt;
           }
 
-          await new Promise((resolve) => setTimeout(resolve, pollInterval));
+          await sleep(pollInterval, options.signal);
         }
 
         throw new TesseraError(
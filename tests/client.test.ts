@@ -0,0 +1,2015 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  TesseraClient,
+  TesseraClientPool,
+  ErrorCode,
+  TesseraError,
+  TxType,
+  merkleRoot,
+  verifyMerkleProof,
+  hexToBytes,
+  bytesToHex,
+  calculateHash,
+  jsonToTransaction,
+  KeyPair,
+  signEnvelope,
+  encodeEnvelope,
+  MemoryCacheStore,
+  type Transport,
+  type TransportRequest,
+  type InstrumentationEvent,
+  type TransactionJson,
+} from '../src/index.js';
+
+const ENDPOINT = 'http://node.test';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+const STATUS = { mempool_size: 0, total_transactions: 0, state_root: '00'.repeat(32) };
+
+const ACCOUNT = { address: 'ab'.repeat(32), balance: 100, nonce: 1, exists: true };
+
+const TX = {
+  tx_type: 'transfer',
+  chain_id: 'tessera-local',
+  from: 'ab'.repeat(32),
+  to: 'cd'.repeat(32),
+  amount: '1',
+  payload: null,
+  nonce: '1',
+  timestamp: '1',
+  signature: '00'.repeat(64),
+};
+
+const TX_HASH = calculateHash(jsonToTransaction(TX));
+
+describe('TesseraClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('Transport', () => {
+    it('should use an injected transport', async () => {
+      const requests: TransportRequest[] = [];
+      const transport: Transport = {
+        async request(request) {
+          requests.push(request);
+          return { status: 200, data: ACCOUNT };
+        },
+      };
+
+      const client = new TesseraClient(ENDPOINT, { transport, headers: { 'X-Test': '1' } });
+      const account = await client.getAccount(ACCOUNT.address);
+
+      expect(account.nonce).toBe(1n);
+      expect(requests[0]).toMatchObject({
+        method: 'POST',
+        url: `${ENDPOINT}/get_account`,
+        path: '/get_account',
+        body: { address: ACCOUNT.address },
+      });
+      expect(requests[0].headers['X-Test']).toBe('1');
+    });
+
+    it('should map transport statuses to errors', async () => {
+      const transport: Transport = {
+        request: async () => ({ status: 500, statusText: 'Boom', data: { error: 'boom' } }),
+      };
+
+      const client = new TesseraClient(ENDPOINT, { transport });
+
+      await expect(client.getValidators()).rejects.toMatchObject({
+        code: ErrorCode.RpcError,
+        details: { status: 500, body: { error: 'boom' } },
+      });
+    });
+
+    it('should use an injected fetch in the default HTTP transport', async () => {
+      const fetchMock = vi.fn(async () => jsonResponse(ACCOUNT));
+
+      const client = new TesseraClient(ENDPOINT, { fetch: fetchMock });
+      await client.getAccount(ACCOUNT.address);
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        `${ENDPOINT}/get_account`,
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ address: ACCOUNT.address }),
+        })
+      );
+    });
+
+    it('should report timeouts from transports that honour the abort signal', async () => {
+      const transport: Transport = {
+        request: ({ signal }) =>
+          new Promise((_resolve, reject) => {
+            signal.addEventListener('abort', () =>
+              reject(Object.assign(new Error('aborted'), { name: 'AbortError' }))
+            );
+          }),
+      };
+
+      const client = new TesseraClient(ENDPOINT, { transport, timeout: 5 });
+
+      await expect(client.getValidators()).rejects.toMatchObject({ code: ErrorCode.Timeout });
+    });
+  });
+
+  describe('Response validation', () => {
+    it('should report the endpoint, field path and value of invalid responses', async () => {
+      const client = new TesseraClient(ENDPOINT, {
+        transport: {
+          request: async () => ({
+            status: 200,
+            data: { proposals: [{ id: 'not-a-number' }] },
+          }),
+        },
+      });
+
+      await expect(client.getProposals()).rejects.toMatchObject({
+        code: ErrorCode.InvalidResponse,
+        details: { endpoint: '/proposals', path: 'proposals[0].id', value: 'not-a-number' },
+      });
+    });
+
+    it('should tolerate unknown fields in lenient mode only', async () => {
+      const transport: Transport = {
+        request: async () => ({ status: 200, data: { ...ACCOUNT, extra: true } }),
+      };
+
+      const lenient = new TesseraClient(ENDPOINT, { transport });
+      const strict = new TesseraClient(ENDPOINT, { transport, validation: 'strict' });
+
+      await expect(lenient.getAccount(ACCOUNT.address)).resolves.toMatchObject({ nonce: 1n });
+      await expect(strict.getAccount(ACCOUNT.address)).rejects.toMatchObject({
+        code: ErrorCode.InvalidResponse,
+        details: { path: 'extra' },
+      });
+    });
+
+    it('should validate JSON-RPC results', async () => {
+      const client = new TesseraClient(ENDPOINT, {
+        transport: {
+          request: async () => ({
+            status: 200,
+            data: { jsonrpc: '2.0', id: 1, result: { hash: 42 } },
+          }),
+        },
+      });
+
+      await expect(client.submitTransaction(TX)).rejects.toMatchObject({
+        code: ErrorCode.InvalidResponse,
+        details: { endpoint: '/rpc tx_submit', path: 'hash' },
+      });
+    });
+
+    it('should skip validation when disabled', async () => {
+      const client = new TesseraClient(ENDPOINT, {
+        validation: false,
+        transport: { request: async () => ({ status: 200, data: { validators: [], bogus: 1 } }) },
+      });
+
+      await expect(client.getValidators()).resolves.toEqual([]);
+    });
+  });
+
+  describe('Middleware', () => {
+    it('should run middleware in order around each request', async () => {
+      const order: string[] = [];
+      const transport: Transport = {
+        async request(request) {
+          order.push(`transport:${request.headers['X-Trace']}`);
+          return { status: 200, data: ACCOUNT };
+        },
+      };
+
+      const client = new TesseraClient(ENDPOINT, {
+        transport,
+        middleware: [
+          async (ctx, next) => {
+            order.push('outer:before');
+            ctx.request.headers['X-Trace'] = 'abc';
+            const response = await next();
+            order.push('outer:after');
+            return response;
+          },
+        ],
+      }).use(async (_ctx, next) => {
+        order.push('inner');
+        return next();
+      });
+
+      await client.getAccount(ACCOUNT.address);
+
+      expect(order).toEqual(['outer:before', 'inner', 'transport:abc', 'outer:after']);
+    });
+
+    it('should allow short-circuiting and transforming responses', async () => {
+      const transport = { request: vi.fn() };
+      const client = new TesseraClient(ENDPOINT, { transport }).use(async () => ({
+        status: 200,
+        data: { ...ACCOUNT, balance: 7 },
+      }));
+
+      const account = await client.getAccount(ACCOUNT.address);
+
+      expect(account.balance).toBe(7n);
+      expect(transport.request).not.toHaveBeenCalled();
+    });
+
+    it('should allow replaying a request after refreshing credentials', async () => {
+      let token = 'expired';
+      const transport: Transport = {
+        request: async (request) =>
+          request.headers.Authorization === 'Bearer fresh'
+            ? { status: 200, data: ACCOUNT }
+            : { status: 401, statusText: 'Unauthorized', data: null },
+      };
+
+      const client = new TesseraClient(ENDPOINT, { transport }).use(async (ctx, next) => {
+        ctx.request.headers.Authorization = `Bearer ${token}`;
+        const response = await next();
+        if (response.status !== 401) return response;
+
+        token = 'fresh';
+        ctx.request.headers.Authorization = `Bearer ${token}`;
+        return next();
+      });
+
+      const account = await client.getAccount(ACCOUNT.address);
+
+      expect(account.exists).toBe(true);
+    });
+
+    it('should surface TesseraErrors thrown by middleware', async () => {
+      const client = new TesseraClient(ENDPOINT, {
+        transport: { request: async () => ({ status: 403, data: null }) },
+      }).use(async (_ctx, next) => {
+        const response = await next();
+        if (response.status === 403) {
+          throw new TesseraError(ErrorCode.SigningError, 'Request signature rejected');
+        }
+        return response;
+      });
+
+      await expect(client.getValidators()).rejects.toMatchObject({
+        code: ErrorCode.SigningError,
+      });
+    });
+  });
+
+  describe('Request options', () => {
+    const hangingTransport: Transport = {
+      request: ({ signal }) =>
+        new Promise((_resolve, reject) => {
+          signal.addEventListener('abort', () =>
+            reject(Object.assign(new Error('aborted'), { name: 'AbortError' }))
+          );
+        }),
+    };
+
+    it('should apply a per-call timeout', async () => {
+      const client = new TesseraClient(ENDPOINT, { transport: hangingTransport });
+
+      await expect(client.getAccount(ACCOUNT.address, { timeout: 5 })).rejects.toMatchObject({
+        code: ErrorCode.Timeout,
+      });
+    });
+
+    it('should cancel a call when the caller aborts', async () => {
+      const client = new TesseraClient(ENDPOINT, { transport: hangingTransport });
+      const controller = new AbortController();
+
+      const promise = client.getTransactions(ACCOUNT.address, {
+        limit: 10,
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(promise).rejects.toMatchObject({ code: ErrorCode.Aborted });
+    });
+
+    it('should not retry or send an already aborted call', async () => {
+      const transport = { request: vi.fn() };
+      const client = new TesseraClient(ENDPOINT, { transport, retry: { initialDelay: 1 } });
+
+      await expect(client.getValidators({ signal: AbortSignal.abort() })).rejects.toMatchObject({
+        code: ErrorCode.Aborted,
+      });
+      expect(transport.request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Cache', () => {
+    function countingTransport(respond: (request: TransportRequest) => unknown) {
+      const request = vi.fn(async (req: TransportRequest) => ({ status: 200, data: respond(req) }));
+      return { request };
+    }
+
+    const validators = {
+      validators: [{ address: 'ab'.repeat(32), stake: '10', is_active: true, commission: 5 }],
+    };
+
+    it('should not cache unless enabled', async () => {
+      const transport = countingTransport(() => validators);
+      const client = new TesseraClient(ENDPOINT, { transport });
+
+      await client.getValidators();
+      await client.getValidators();
+
+      expect(transport.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cache mutable endpoints until their TTL expires', async () => {
+      vi.useFakeTimers();
+      try {
+        const transport = countingTransport(() => validators);
+        const client = new TesseraClient(ENDPOINT, {
+          transport,
+          cache: { ttl: { '/validators': 1000 } },
+        });
+
+        await client.getValidators();
+        await client.getValidator('ab'.repeat(32));
+        expect(transport.request).toHaveBeenCalledTimes(1);
+
+        vi.advanceTimersByTime(1001);
+        await client.getValidators();
+        expect(transport.request).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should cache blocks and included transactions permanently', async () => {
+      const transport = countingTransport((req) => {
+        if (req.path === '/get_block') {
+          return {
+            block: {
+              height: 1,
+              timestamp: 1,
+              prev_hash: '',
+              merkle_root: '',
+              proposer: '',
+              transactions: [],
+              hash: 'h1',
+            },
+          };
+        }
+        const { tx_hash } = req.body as { tx_hash: string };
+        return { transaction: { ...TX, hash: tx_hash }, in_mempool: tx_hash === 'pending' };
+      });
+      const client = new TesseraClient(ENDPOINT, { transport, cache: true });
+
+      await client.getBlock(1n);
+      await client.getBlock(1n);
+      await client.getTransaction('included');
+      await client.getTransaction('included');
+      await client.getTransaction('pending');
+      await client.getTransaction('pending');
+
+      expect(transport.request).toHaveBeenCalledTimes(4);
+    });
+
+    it('should deduplicate concurrent identical requests', async () => {
+      const transport = countingTransport(() => ACCOUNT);
+      const client = new TesseraClient(ENDPOINT, { transport, cache: true });
+
+      const [a, b] = await Promise.all([
+        client.getAccount(ACCOUNT.address),
+        client.getAccount(ACCOUNT.address),
+      ]);
+      await client.getAccount(ACCOUNT.address);
+
+      expect(a).toEqual(b);
+      expect(transport.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use a custom store and support clearing', async () => {
+      const store = new MemoryCacheStore();
+      const transport = countingTransport(() => validators);
+      const client = new TesseraClient(ENDPOINT, { transport, cache: { store } });
+
+      await client.getValidators();
+      expect(store.get(`GET ${ENDPOINT}/validators`)).toBeDefined();
+
+      await client.clearCache();
+      await client.getValidators();
+      expect(transport.request).toHaveBeenCalledTimes(2);
+
+      // A store shared with a client of another node doesn't mix their responses
+      const other = new TesseraClient('http://other.test', { transport, cache: { store } });
+      await other.getValidators();
+      expect(transport.request).toHaveBeenCalledTimes(3);
+    });
+
+    it('should hand out copies of cached responses', async () => {
+      const transport = countingTransport(() => ({
+        block: {
+          height: 1,
+          timestamp: 1,
+          prev_hash: '',
+          merkle_root: '',
+          proposer: '',
+          transactions: [TX],
+          hash: 'h1',
+        },
+      }));
+      const client = new TesseraClient(ENDPOINT, { transport, cache: true });
+
+      const [first, shared] = await Promise.all([client.getBlock(1n), client.getBlock(1n)]);
+      first!.transactions.pop();
+
+      expect(shared!.transactions).toHaveLength(1);
+      expect((await client.getBlock(1n))!.transactions).toHaveLength(1);
+      expect(transport.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache paths with a TTL of 0', async () => {
+      const transport = countingTransport(() => ({
+        block: {
+          height: 1,
+          timestamp: 1,
+          prev_hash: '',
+          merkle_root: '',
+          proposer: '',
+          transactions: [],
+          hash: 'h1',
+        },
+      }));
+      const client = new TesseraClient(ENDPOINT, {
+        transport,
+        cache: { ttl: { '/get_block': 0 } },
+      });
+
+      await client.getBlock(1n);
+      await client.getBlock(1n);
+
+      expect(transport.request).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Rate limiting', () => {
+    it('should cap the number of concurrent requests', async () => {
+      let active = 0;
+      let maxActive = 0;
+      const transport: Transport = {
+        async request() {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          active--;
+          return { status: 200, data: ACCOUNT };
+        },
+      };
+
+      const client = new TesseraClient(ENDPOINT, { transport, rateLimit: { maxConcurrency: 2 } });
+      await Promise.all(Array.from({ length: 6 }, () => client.getAccount(ACCOUNT.address)));
+
+      expect(maxActive).toBe(2);
+    });
+
+    it('should serve high priority requests before queued bulk reads', async () => {
+      const order: string[] = [];
+      const transport: Transport = {
+        async request(request) {
+          order.push(request.path);
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          return {
+            status: 200,
+            data:
+              request.path === '/rpc'
+                ? { jsonrpc: '2.0', id: 1, result: { hash: TX_HASH, status: 'pending' } }
+                : ACCOUNT,
+          };
+        },
+      };
+
+      const client = new TesseraClient(ENDPOINT, { transport, rateLimit: { maxConcurrency: 1 } });
+      const reads = Array.from({ length: 3 }, () => client.getAccount(ACCOUNT.address));
+      const submit = client.submitTransaction({
+        tx_type: 'transfer',
+        chain_id: 'tessera-local',
+        from: 'ab'.repeat(32),
+        to: 'cd'.repeat(32),
+        amount: '1',
+        payload: null,
+        nonce: '1',
+        timestamp: '1',
+        signature: '00'.repeat(64),
+      });
+      await Promise.all([...reads, submit]);
+
+      // The first read was already in flight; the submission jumps the remaining reads
+      expect(order).toEqual(['/get_account', '/rpc', '/get_account', '/get_account']);
+    });
+
+    it('should honour Retry-After on HTTP 429', async () => {
+      const times: number[] = [];
+      const transport: Transport = {
+        async request() {
+          times.push(Date.now());
+          return times.length === 1
+            ? {
+                status: 429,
+                statusText: 'Too Many Requests',
+                headers: { 'retry-after': '0.05' },
+                data: null,
+              }
+            : { status: 200, data: ACCOUNT };
+        },
+      };
+
+      const client = new TesseraClient(ENDPOINT, {
+        transport,
+        rateLimit: { requestsPerSecond: 100 },
+      });
+      const account = await client.getAccount(ACCOUNT.address);
+
+      expect(account.exists).toBe(true);
+      expect(times).toHaveLength(2);
+      expect(times[1] - times[0]).toBeGreaterThanOrEqual(45);
+    });
+
+    it('should throttle to the configured request rate', async () => {
+      const transport: Transport = { request: async () => ({ status: 200, data: ACCOUNT }) };
+      const client = new TesseraClient(ENDPOINT, {
+        transport,
+        rateLimit: { requestsPerSecond: 100, burst: 1 },
+      });
+
+      const start = Date.now();
+      await Promise.all(Array.from({ length: 4 }, () => client.getAccount(ACCOUNT.address)));
+
+      // One request from the burst, then one every 10ms
+      expect(Date.now() - start).toBeGreaterThanOrEqual(25);
+    });
+  });
+
+  describe('Retry', () => {
+    it('should not retry by default', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(jsonResponse({}, 503));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const client = new TesseraClient(ENDPOINT);
+
+      await expect(client.getAccount(ACCOUNT.address)).rejects.toThrow('HTTP 503');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry retryable HTTP statuses and report attempts', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(jsonResponse({}, 503))
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(jsonResponse(ACCOUNT));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const onRetry = vi.fn();
+      const client = new TesseraClient(ENDPOINT, {
+        retry: { maxAttempts: 3, initialDelay: 1, jitter: false, onRetry },
+      });
+
+      const account = await client.getAccount(ACCOUNT.address);
+
+      expect(account.balance).toBe(100n);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry.mock.calls[0][0]).toMatchObject({
+        attempt: 1,
+        delay: 1,
+        path: '/get_account',
+      });
+      expect(onRetry.mock.calls[1][0].error.code).toBe(ErrorCode.NetworkError);
+    });
+
+    it('should give up after maxAttempts', async () => {
+      const fetchMock = vi.fn().mockImplementation(async () => jsonResponse({}, 502));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const client = new TesseraClient(ENDPOINT, {
+        retry: { maxAttempts: 2, initialDelay: 1 },
+      });
+
+      await expect(client.getValidators()).rejects.toBeInstanceOf(TesseraError);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry non-retryable statuses', async () => {
+      const fetchMock = vi.fn().mockImplementation(async () => jsonResponse({}, 400));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const client = new TesseraClient(ENDPOINT, {
+        retry: { maxAttempts: 3, initialDelay: 1 },
+      });
+
+      await expect(client.getValidators()).rejects.toThrow('HTTP 400');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only retry tx_submit when the transaction carries its hash', async () => {
+      const fetchMock = vi.fn().mockImplementation(async () => jsonResponse({}, 503));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const client = new TesseraClient(ENDPOINT, {
+        retry: { maxAttempts: 3, initialDelay: 1 },
+      });
+      const tx = {
+        tx_type: 'transfer',
+        chain_id: 'tessera-local',
+        from: 'ab'.repeat(32),
+        to: 'cd'.repeat(32),
+        amount: '1',
+        payload: null,
+        nonce: '1',
+        timestamp: '1',
+        signature: '00'.repeat(64),
+      };
+
+      await expect(client.submitTransaction(tx)).rejects.toThrow('HTTP 503');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      fetchMock.mockClear();
+      await expect(client.submitTransaction({ ...tx, hash: 'ef'.repeat(32) })).rejects.toThrow(
+        'HTTP 503'
+      );
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should treat a duplicate after a retried tx_submit as accepted', async () => {
+      const duplicate = {
+        jsonrpc: '2.0',
+        id: 1,
+        error: { code: -32000, message: 'duplicate transaction' },
+      };
+      const fetchMock = vi
+        .fn()
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockImplementation(async () => jsonResponse(duplicate));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const client = new TesseraClient(ENDPOINT, {
+        retry: { maxAttempts: 3, initialDelay: 1 },
+      });
+
+      await expect(client.submitTransaction({ ...TX, hash: TX_HASH })).resolves.toMatchObject({
+        hash: TX_HASH,
+        status: 'pending',
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      // Without a retry the duplicate is a real rejection
+      fetchMock.mockClear();
+      await expect(client.submitTransaction({ ...TX, hash: TX_HASH })).rejects.toMatchObject({
+        code: ErrorCode.DuplicateTransaction,
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat duplicates after a retried batch as accepted', async () => {
+      const other = { ...TX, nonce: '2', hash: 'ef'.repeat(32) };
+      vi.stubGlobal(
+        'fetch',
+        vi
+          .fn()
+          .mockRejectedValueOnce(new TypeError('fetch failed'))
+          .mockImplementation(async (_url: string, init: RequestInit) => {
+            const [first, second] = JSON.parse(init.body as string);
+            return jsonResponse([
+              {
+                jsonrpc: '2.0',
+                id: first.id,
+                error: { code: -32000, message: 'duplicate transaction' },
+              },
+              { jsonrpc: '2.0', id: second.id, error: { code: -32000, message: 'invalid nonce' } },
+            ]);
+          })
+      );
+
+      const batch = new TesseraClient(ENDPOINT, {
+        retry: { maxAttempts: 2, initialDelay: 1 },
+      }).batch();
+      batch.submitTransaction({ ...TX, hash: TX_HASH });
+      batch.submitTransaction(other);
+
+      const [accepted, rejected] = await batch.send();
+
+      expect(accepted).toMatchObject({ ok: true, value: { hash: TX_HASH, status: 'pending' } });
+      expect(rejected).toMatchObject({ ok: false, error: { code: ErrorCode.InvalidNonce } });
+    });
+  });
+  describe('Batch', () => {
+    const tx = {
+      tx_type: 'transfer',
+      chain_id: 'tessera-local',
+      from: 'ab'.repeat(32),
+      to: 'cd'.repeat(32),
+      amount: '1',
+      payload: null,
+      nonce: '1',
+      timestamp: '1',
+      signature: '00'.repeat(64),
+      fee: '1000',
+    };
+
+    it('should send calls as one JSON-RPC array and match responses by id', async () => {
+      const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+        const requests = JSON.parse(init.body as string) as {
+          id: number;
+          params: TransactionJson;
+        }[];
+        // Respond out of order, with an error for the second call
+        return jsonResponse(
+          requests
+            .map((r, i) =>
+              i === 1
+                ? { jsonrpc: '2.0', id: r.id, error: { code: -32000, message: 'invalid nonce' } }
+                : {
+                    jsonrpc: '2.0',
+                    id: r.id,
+                    result: {
+                      hash: calculateHash(jsonToTransaction(r.params)),
+                      status: 'pending',
+                    },
+                  }
+            )
+            .reverse()
+        );
+      });
+      vi.stubGlobal('fetch', fetchMock);
+
+      const batch = new TesseraClient(ENDPOINT).batch();
+      batch.submitTransaction({ ...tx, nonce: '1' });
+      batch.submitTransaction({ ...tx, nonce: '2' });
+      batch.submitTransaction({ ...tx, nonce: '3' });
+
+      const results = await batch.send();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(results).toHaveLength(3);
+      const hash = (nonce: string) => calculateHash(jsonToTransaction({ ...tx, nonce }));
+      expect(results[0]).toMatchObject({ ok: true, value: { hash: hash('1'), fee: 1000n } });
+      expect(results[1].ok).toBe(false);
+      expect(results[1].error?.message).toBe('invalid nonce');
+      expect(results[2]).toMatchObject({ ok: true, value: { hash: hash('3') } });
+    });
+
+    it('should check submission hashes per call and emit submission events', async () => {
+      const good = { ...tx, nonce: '1' };
+      const goodHash = calculateHash(jsonToTransaction(good));
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () =>
+          jsonResponse([
+            { jsonrpc: '2.0', id: 1, result: { hash: goodHash, status: 'pending' } },
+            { jsonrpc: '2.0', id: 2, result: { hash: 'ee'.repeat(32), status: 'pending' } },
+            { jsonrpc: '2.0', id: 3, result: { status: 'pending' } },
+          ])
+        )
+      );
+
+      const events: InstrumentationEvent[] = [];
+      const batch = new TesseraClient(ENDPOINT, {
+        verifyHashes: true,
+        instrumentation: { onEvent: (event) => events.push(event) },
+      }).batch();
+      batch.submitTransaction(good);
+      batch.submitTransaction({ ...tx, nonce: '2' });
+      batch.submitTransaction({ ...tx, nonce: '3' });
+
+      const results = await batch.send();
+
+      expect(results[0]).toMatchObject({ ok: true, value: { hash: goodHash } });
+      expect(results[1]).toMatchObject({
+        ok: false,
+        error: { code: ErrorCode.HashMismatch, details: { nodeHash: 'ee'.repeat(32) } },
+      });
+      expect(results[2]).toMatchObject({ ok: false, error: { code: ErrorCode.InvalidResponse } });
+      expect(events.filter((event) => event.type === 'transaction:submitted')).toEqual([
+        { type: 'transaction:submitted', endpoint: ENDPOINT, hash: goodHash, status: 'pending' },
+      ]);
+    });
+
+    it('should skip the batch hash check by default', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () =>
+          jsonResponse([{ jsonrpc: '2.0', id: 1, result: { hash: 'ee', status: 'pending' } }])
+        )
+      );
+
+      const batch = new TesseraClient(ENDPOINT).batch();
+      batch.submitTransaction(tx);
+
+      expect(await batch.send()).toMatchObject([{ ok: true, value: { hash: 'ee' } }]);
+    });
+
+    it('should report calls missing from the response', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => jsonResponse([]))
+      );
+
+      const batch = new TesseraClient(ENDPOINT).batch();
+      batch.add('custom_method', { a: 1 });
+
+      const [result] = await batch.send();
+
+      expect(result.ok).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.RpcError);
+    });
+
+    it('should not send a batch twice', async () => {
+      vi.stubGlobal('fetch', vi.fn());
+
+      const batch = new TesseraClient(ENDPOINT).batch();
+      await batch.send();
+
+      await expect(batch.send()).rejects.toMatchObject({
+        code: ErrorCode.InvalidArgument,
+        message: 'Batch has already been sent',
+      });
+      expect(() => batch.add('custom_method')).toThrow(
+        expect.objectContaining({ code: ErrorCode.InvalidArgument })
+      );
+    });
+  });
+  describe('Subscriptions', () => {
+    class FakeWebSocket {
+      static instances: FakeWebSocket[] = [];
+      readyState = 0;
+      sent: { id: number; method: string; params: Record<string, unknown> }[] = [];
+      onopen: ((event: unknown) => void) | null = null;
+      onmessage: ((event: { data: unknown }) => void) | null = null;
+      onclose: ((event: unknown) => void) | null = null;
+      onerror: ((event: unknown) => void) | null = null;
+
+      constructor(public readonly url: string) {
+        FakeWebSocket.instances.push(this);
+        setTimeout(() => {
+          this.readyState = 1;
+          this.onopen?.({});
+        });
+      }
+
+      send(data: string) {
+        const request = JSON.parse(data);
+        this.sent.push(request);
+        // Acknowledge subscriptions with a server-side id
+        setTimeout(() =>
+          this.receive({ jsonrpc: '2.0', id: request.id, result: `sub-${request.params.topic}` })
+        );
+      }
+
+      close() {
+        this.readyState = 3;
+        this.onclose?.({});
+      }
+
+      receive(message: unknown) {
+        this.onmessage?.({ data: JSON.stringify(message) });
+      }
+
+      notify(topic: string, result: unknown) {
+        this.receive({
+          jsonrpc: '2.0',
+          method: 'subscription',
+          params: { subscription: `sub-${topic}`, result },
+        });
+      }
+    }
+
+    const rawBlock = (height: number) => ({
+      height,
+      timestamp: 1700000000 + height,
+      prev_hash: `h${height - 1}`,
+      merkle_root: '00',
+      proposer: 'ab'.repeat(32),
+      transactions: [],
+      hash: `h${height}`,
+    });
+
+    afterEach(() => {
+      FakeWebSocket.instances = [];
+    });
+
+    function createClient() {
+      return new TesseraClient(ENDPOINT, {
+        subscriptions: {
+          webSocket: FakeWebSocket,
+          reconnect: { initialDelay: 1, jitter: false },
+        },
+      });
+    }
+
+    it('should connect to the derived WebSocket URL and deliver events', async () => {
+      const client = createClient();
+      const updates: unknown[] = [];
+
+      await client.subscribe(`tx:${'ef'.repeat(32)}`, (update) => updates.push(update));
+      const socket = FakeWebSocket.instances[0];
+      socket.notify(`tx:${'ef'.repeat(32)}`, { hash: 'ef', status: 'confirmed', block_height: 5 });
+
+      expect(socket.url).toBe('ws://node.test/ws');
+      expect(socket.sent[0]).toMatchObject({
+        method: 'subscribe',
+        params: { topic: `tx:${'ef'.repeat(32)}` },
+      });
+      expect(updates).toEqual([
+        { hash: 'ef', status: 'confirmed', blockHeight: 5n, blockHash: undefined },
+      ]);
+
+      client.closeSubscriptions();
+    });
+
+    it('should reject invalid topics', async () => {
+      const client = createClient();
+
+      await expect(client.subscribe('blocks' as 'newBlocks', () => {})).rejects.toMatchObject({
+        code: ErrorCode.InvalidArgument,
+        message: 'Invalid subscription topic: blocks',
+      });
+    });
+
+    it('should map WebSocket JSON-RPC errors like HTTP ones', async () => {
+      class FailingWebSocket extends FakeWebSocket {
+        send(data: string) {
+          const { id } = JSON.parse(data);
+          setTimeout(() =>
+            this.receive({
+              jsonrpc: '2.0',
+              id,
+              error: { code: -32000, message: 'mempool is full' },
+            })
+          );
+        }
+      }
+      const client = new TesseraClient(ENDPOINT, {
+        subscriptions: { webSocket: FailingWebSocket },
+      });
+
+      await expect(client.subscribe('mempool', () => {})).rejects.toMatchObject({
+        code: ErrorCode.MempoolFull,
+        details: { code: -32000 },
+      });
+      client.closeSubscriptions();
+    });
+
+    it('should reject subscriptions in flight when closed', async () => {
+      class SilentWebSocket extends FakeWebSocket {
+        send(data: string) {
+          this.sent.push(JSON.parse(data));
+        }
+      }
+      const client = new TesseraClient(ENDPOINT, { subscriptions: { webSocket: SilentWebSocket } });
+
+      const connecting = client.subscribe('newBlocks', () => {});
+      client.closeSubscriptions();
+      await expect(connecting).rejects.toMatchObject({ code: ErrorCode.NetworkError });
+
+      const subscribing = client.subscribe('mempool', () => {});
+      await vi.waitFor(() => expect(FakeWebSocket.instances[1]?.sent).toHaveLength(1));
+      client.closeSubscriptions();
+      await expect(subscribing).rejects.toMatchObject({ code: ErrorCode.NetworkError });
+    });
+
+    it('should reconnect, resubscribe and fill missed blocks', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async (url: string, init: RequestInit) => {
+          if (url.endsWith('/network_status'))
+            return jsonResponse({ ...STATUS, current_height: 5 });
+          const { height } = JSON.parse(init.body as string);
+          return jsonResponse({ block: rawBlock(height) });
+        })
+      );
+
+      const client = createClient();
+      const heights: bigint[] = [];
+      await client.subscribe('newBlocks', (block) => heights.push(block.header.height));
+
+      const first = FakeWebSocket.instances[0];
+      first.notify('newBlocks', rawBlock(1));
+      // Height 2 is announced out of band: the gap is filled before delivery
+      first.notify('newBlocks', rawBlock(3));
+      await vi.waitFor(() => expect(heights).toEqual([1n, 2n, 3n]));
+
+      first.close();
+      await vi.waitFor(() => expect(heights).toEqual([1n, 2n, 3n, 4n, 5n]));
+
+      const second = FakeWebSocket.instances[1];
+      expect(second.sent[0]).toMatchObject({ method: 'subscribe', params: { topic: 'newBlocks' } });
+
+      // Duplicates of already delivered heights are dropped
+      second.notify('newBlocks', rawBlock(5));
+      second.notify('newBlocks', rawBlock(6));
+      await vi.waitFor(() => expect(heights).toEqual([1n, 2n, 3n, 4n, 5n, 6n]));
+
+      client.closeSubscriptions();
+    });
+  });
+  describe('watchBlocks', () => {
+    function stubChain(chain: { height: number; hashes: Record<number, string> }) {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async (url: string, init: RequestInit) => {
+          if (url.endsWith('/network_status'))
+            return jsonResponse({ ...STATUS, current_height: chain.height });
+          const { height } = JSON.parse(init.body as string);
+          if (height > chain.height) return jsonResponse({}, 404);
+          return jsonResponse({
+            block: {
+              height,
+              timestamp: height,
+              prev_hash: chain.hashes[height - 1] ?? `h${height - 1}`,
+              merkle_root: '00',
+              proposer: 'ab'.repeat(32),
+              transactions: [],
+              hash: chain.hashes[height] ?? `h${height}`,
+            },
+          });
+        })
+      );
+    }
+
+    it('should yield every height once and in order while the chain grows', async () => {
+      const chain = { height: 3, hashes: {} };
+      stubChain(chain);
+
+      const client = new TesseraClient(ENDPOINT);
+      const controller = new AbortController();
+      const heights: bigint[] = [];
+
+      for await (const block of client.watchBlocks({
+        fromHeight: 2n,
+        pollInterval: 1,
+        signal: controller.signal,
+      })) {
+        heights.push(block.header.height);
+        if (block.header.height === 3n) chain.height = 5;
+        if (block.header.height === 5n) controller.abort();
+      }
+
+      expect(heights).toEqual([2n, 3n, 4n, 5n]);
+    });
+
+    it('should detect reorgs through previousHash mismatches', async () => {
+      const chain = { height: 2, hashes: {} as Record<number, string> };
+      stubChain(chain);
+
+      const client = new TesseraClient(ENDPOINT);
+      const iterator = client
+        .watchBlocks({ fromHeight: 1n, pollInterval: 1 })
+        [Symbol.asyncIterator]();
+
+      await iterator.next();
+      // Block 1 is replaced after it was yielded
+      chain.hashes[1] = 'forked';
+
+      await expect(iterator.next()).rejects.toMatchObject({ code: ErrorCode.ChainReorg });
+    });
+  });
+
+  describe('Network status', () => {
+    const now = () => Math.floor(Date.now() / 1000);
+
+    function stubStatus(origin: string, status: Record<string, unknown>) {
+      return [origin, { ...STATUS, ...status }] as const;
+    }
+
+    function stubNodes(nodes: (readonly [string, Record<string, unknown>])[], blockTime = now()) {
+      const byOrigin = new Map(nodes);
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async (url: string) => {
+          const { origin, pathname } = new URL(url);
+          const status = byOrigin.get(origin);
+          if (!status) throw new TypeError('fetch failed');
+          if (pathname === '/network_status') return jsonResponse(status);
+          return jsonResponse({
+            block: {
+              height: status.current_height,
+              timestamp: blockTime,
+              prev_hash: 'h',
+              merkle_root: '00',
+              proposer: 'ab'.repeat(32),
+              transactions: [],
+              hash: 'h',
+            },
+          });
+        })
+      );
+    }
+
+    it('should expose reported fields and leave unknown ones undefined', async () => {
+      stubNodes([
+        stubStatus(ENDPOINT, { current_height: 4, mempool_size: 2, total_transactions: 10 }),
+      ]);
+
+      const status = await new TesseraClient(ENDPOINT).getNetworkStatus();
+
+      expect(status).toMatchObject({
+        blockHeight: 4n,
+        mempoolSize: 2,
+        totalTransactions: 10n,
+        stateRoot: STATUS.state_root,
+      });
+      expect(status.chainId).toBeUndefined();
+      expect(status.blockTime).toBeUndefined();
+      expect(status.peerCount).toBeUndefined();
+      expect(status.isSyncing).toBeUndefined();
+    });
+
+    it('should report a stale latest block as syncing', async () => {
+      stubNodes([stubStatus(ENDPOINT, { current_height: 4 })], now() - 120);
+
+      const sync = await new TesseraClient(ENDPOINT).getSyncStatus();
+
+      expect(sync.isSyncing).toBe(true);
+      expect(sync.blockAge).toBeGreaterThanOrEqual(120);
+      expect(sync.peerHeight).toBeNull();
+    });
+
+    it('should compare heights against reachable peers', async () => {
+      stubNodes([
+        stubStatus(ENDPOINT, { current_height: 4 }),
+        stubStatus('http://peer-a.test', { current_height: 10 }),
+      ]);
+
+      const client = new TesseraClient(ENDPOINT);
+      const peers = ['http://peer-a.test', 'http://peer-b.test'].map(
+        (url) => new TesseraClient(url, { retry: { maxAttempts: 1 } })
+      );
+      const sync = await client.getSyncStatus({ peers });
+
+      expect(sync).toMatchObject({ isSyncing: true, peerHeight: 10n, heightLag: 6n });
+      expect((await client.getSyncStatus({ peers, maxHeightLag: 10n })).isSyncing).toBe(false);
+    });
+  });
+
+  describe('Historical state', () => {
+    function stubState(heights: number[], { echoHeight = true } = {}) {
+      const requests: { url: string; body?: Record<string, unknown> }[] = [];
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async (url: string, init: RequestInit) => {
+          requests.push({ url, body: init.body ? JSON.parse(init.body as string) : undefined });
+          const { pathname, searchParams } = new URL(url);
+          if (pathname === '/network_status') {
+            return jsonResponse({ ...STATUS, current_height: heights.shift() });
+          }
+          const height = searchParams.get('height');
+          const echo = echoHeight && height !== null ? { height: Number(height) } : {};
+          if (pathname === '/validators') return jsonResponse({ validators: [], ...echo });
+          return jsonResponse({ ...ACCOUNT, ...echo });
+        })
+      );
+      return requests;
+    }
+
+    it('should pass atHeight to the node', async () => {
+      const requests = stubState([]);
+      const client = new TesseraClient(ENDPOINT);
+
+      await client.getAccount(ACCOUNT.address, { atHeight: 7n });
+      await client.getValidators({ atHeight: 7n });
+      await client.getValidators();
+
+      expect(requests.map((request) => request.url)).toEqual([
+        `${ENDPOINT}/get_account?height=7`,
+        `${ENDPOINT}/validators?height=7`,
+        `${ENDPOINT}/validators`,
+      ]);
+      expect(requests[0].body).toEqual({ address: ACCOUNT.address });
+    });
+
+    it('should fail when the node does not answer at the requested height', async () => {
+      stubState([], { echoHeight: false });
+      const client = new TesseraClient(ENDPOINT);
+
+      await expect(client.getAccount(ACCOUNT.address, { atHeight: 7n })).rejects.toMatchObject({
+        code: ErrorCode.HistoricalStateUnavailable,
+        details: { path: '/get_account', requested: 7n, returned: null },
+      });
+      await expect(client.getValidators({ atHeight: 7n })).rejects.toMatchObject({
+        code: ErrorCode.HistoricalStateUnavailable,
+      });
+      await expect(client.getValidators()).resolves.toEqual([]);
+    });
+
+    it('should cache each height separately', async () => {
+      const requests = stubState([]);
+      const client = new TesseraClient(ENDPOINT, { cache: true });
+
+      await client.getValidators({ atHeight: 1n });
+      await client.getValidators({ atHeight: 2n });
+      await client.getValidators({ atHeight: 1n });
+
+      expect(requests).toHaveLength(2);
+    });
+
+    it('should pin a consistent read to the current height', async () => {
+      const requests = stubState([5, 5]);
+      const client = new TesseraClient(ENDPOINT);
+
+      const [balance, validators] = await client.consistentRead((view) =>
+        Promise.all([view.getBalance(ACCOUNT.address), view.getValidators()])
+      );
+
+      expect(balance).toBe(100n);
+      expect(validators).toEqual([]);
+      expect(requests.slice(1, 3).map((request) => new URL(request.url).search)).toEqual([
+        '?height=5',
+        '?height=5',
+      ]);
+    });
+
+    it('should fail when the node advances during a consistent read', async () => {
+      stubState([5, 6]);
+      const client = new TesseraClient(ENDPOINT);
+
+      await expect(
+        client.consistentRead((view) => view.getAccount(ACCOUNT.address))
+      ).rejects.toMatchObject({
+        code: ErrorCode.StateChanged,
+        details: { height: 5n, current: 6n },
+      });
+    });
+  });
+
+  describe('Instrumentation', () => {
+    it('should emit request, retry and submission events', async () => {
+      let calls = 0;
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () =>
+          ++calls === 1
+            ? jsonResponse({}, 503)
+            : jsonResponse({ jsonrpc: '2.0', result: { hash: TX_HASH, status: 'pending' }, id: 1 })
+        )
+      );
+
+      const events: InstrumentationEvent[] = [];
+      const client = new TesseraClient(ENDPOINT, {
+        retry: { maxAttempts: 2, initialDelay: 1 },
+        instrumentation: { onEvent: (event) => events.push(event) },
+      });
+      await client.submitTransaction({ ...TX, hash: TX_HASH });
+
+      expect(events.map((event) => event.type)).toEqual([
+        'request:start',
+        'request:end',
+        'request:retry',
+        'request:start',
+        'request:end',
+        'transaction:submitted',
+      ]);
+      expect(events[1]).toMatchObject({ path: '/rpc', rpcMethod: 'tx_submit', status: 503 });
+      expect(events[4]).toMatchObject({ attempt: 2, status: 200 });
+      expect(events[4]).not.toHaveProperty('error');
+      expect(events[5]).toMatchObject({ hash: TX_HASH, status: 'pending' });
+    });
+
+    it('should log through the logger adapter and trace every attempt', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => jsonResponse({ error: 'down' }, 500))
+      );
+
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const span = {
+        setAttribute: vi.fn(),
+        setStatus: vi.fn(),
+        recordException: vi.fn(),
+        end: vi.fn(),
+      };
+      const tracer = { startSpan: vi.fn(() => span) };
+      const client = new TesseraClient(ENDPOINT, {
+        retry: { maxAttempts: 1 },
+        instrumentation: { logger, tracer },
+      });
+
+      await expect(client.getAccount(ACCOUNT.address)).rejects.toThrow('HTTP 500');
+
+      expect(logger.debug).toHaveBeenCalledWith('POST /get_account started', expect.any(Object));
+      expect(logger.warn).toHaveBeenCalledWith(
+        'POST /get_account failed: HTTP 500: down',
+        expect.objectContaining({ status: 500 })
+      );
+      expect(tracer.startSpan).toHaveBeenCalledWith('tessera /get_account', {
+        attributes: {
+          'http.request.method': 'POST',
+          'url.path': '/get_account',
+          'tessera.attempt': 1,
+        },
+      });
+      expect(span.setStatus).toHaveBeenCalledWith({ code: 2, message: 'HTTP 500: down' });
+      expect(span.end).toHaveBeenCalledOnce();
+    });
+
+    it('should not let failing hooks break requests', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => jsonResponse(ACCOUNT))
+      );
+
+      const client = new TesseraClient(ENDPOINT, {
+        instrumentation: {
+          onEvent: () => {
+            throw new Error('hook failed');
+          },
+        },
+      });
+
+      expect((await client.getAccount(ACCOUNT.address)).balance).toBe(100n);
+    });
+  });
+
+  describe('Node errors', () => {
+    const rpcFailure = (message: string, code = -32000) =>
+      jsonResponse({ jsonrpc: '2.0', error: { code, message }, id: 1 });
+
+    it.each([
+      ['invalid nonce: expected 5, got 3', ErrorCode.InvalidNonce],
+      ['Insufficient balance for transfer', ErrorCode.InsufficientBalance],
+      ['invalid signature', ErrorCode.InvalidSignature],
+      ['transaction already in mempool', ErrorCode.DuplicateTransaction],
+      ['mempool is full', ErrorCode.MempoolFull],
+      ['chain_id mismatch', ErrorCode.ChainMismatch],
+      ['duplicate transaction', ErrorCode.DuplicateTransaction],
+      ['something else', ErrorCode.RpcError],
+      ['memo must not mention a nonce', ErrorCode.RpcError],
+      ['signature field is required', ErrorCode.RpcError],
+      ['duplicate key in params', ErrorCode.RpcError],
+    ])('should map JSON-RPC error "%s"', async (message, code) => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => rpcFailure(message))
+      );
+
+      const client = new TesseraClient(ENDPOINT);
+      await expect(client.submitTransaction(TX)).rejects.toMatchObject({ code, message });
+    });
+
+    it('should not read transaction failures into JSON-RPC protocol errors', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => rpcFailure('invalid params: invalid nonce', -32602))
+      );
+
+      const client = new TesseraClient(ENDPOINT);
+      await expect(client.submitTransaction(TX)).rejects.toMatchObject({
+        code: ErrorCode.RpcError,
+        details: { code: -32602 },
+      });
+    });
+
+    it('should map HTTP error bodies and keep the status', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => jsonResponse({ error: 'Insufficient funds' }, 400))
+      );
+
+      const client = new TesseraClient(ENDPOINT);
+      await expect(client.getAccount(ACCOUNT.address)).rejects.toMatchObject({
+        code: ErrorCode.InsufficientBalance,
+        message: 'HTTP 400: Insufficient funds',
+        details: { status: 400 },
+      });
+    });
+
+    it('should map batch item errors', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () =>
+          jsonResponse([
+            { jsonrpc: '2.0', error: { code: -32000, message: 'nonce too low' }, id: 1 },
+          ])
+        )
+      );
+
+      const batch = new TesseraClient(ENDPOINT).batch();
+      batch.submitTransaction(TX);
+      const [result] = await batch.send();
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.error.code).toBe(ErrorCode.InvalidNonce);
+    });
+
+    it('should return null from lookups only for HTTP 404', async () => {
+      let status = 404;
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => jsonResponse({ error: 'unavailable' }, status))
+      );
+
+      const client = new TesseraClient(ENDPOINT, { retry: { maxAttempts: 1 } });
+      expect(await client.getTransaction('ab')).toBeNull();
+      expect(await client.getBlock(1n)).toBeNull();
+      expect(await client.getProposal(1n)).toBeNull();
+
+      status = 503;
+      await expect(client.getTransaction('ab')).rejects.toMatchObject({
+        code: ErrorCode.RpcError,
+      });
+      await expect(client.getBlock(1n)).rejects.toMatchObject({ code: ErrorCode.RpcError });
+      await expect(client.getProposal(1n)).rejects.toMatchObject({ code: ErrorCode.RpcError });
+    });
+  });
+
+  describe('Network identity', () => {
+    const IDENTITY = {
+      chain_id: 'tessera-local',
+      network_id: 'local',
+      genesis_hash: 'ab'.repeat(32),
+      genesis_time: 0,
+    };
+
+    function identityTransport(identity: typeof IDENTITY) {
+      const paths: string[] = [];
+      const transport: Transport = {
+        async request(request) {
+          paths.push(request.path);
+          if (request.path === '/network_identity') return { status: 200, data: identity };
+          return {
+            status: 200,
+            data: { jsonrpc: '2.0', result: { hash: TX_HASH, status: 'pending' }, id: 1 },
+          };
+        },
+      };
+      return { transport, paths };
+    }
+
+    it('should verify the node once before submitting', async () => {
+      const { transport, paths } = identityTransport(IDENTITY);
+      const client = new TesseraClient(ENDPOINT, {
+        transport,
+        expectedIdentity: { chainId: 'tessera-local', genesisHash: IDENTITY.genesis_hash },
+      });
+
+      await client.submitTransaction(TX);
+      await client.submitTransaction(TX);
+
+      expect(paths).toEqual(['/network_identity', '/rpc', '/rpc']);
+    });
+
+    it('should refuse to submit to a node on another network', async () => {
+      const { transport, paths } = identityTransport({
+        ...IDENTITY,
+        genesis_hash: 'cd'.repeat(32),
+      });
+      const client = new TesseraClient(ENDPOINT, {
+        transport,
+        expectedIdentity: { genesisHash: IDENTITY.genesis_hash },
+      });
+
+      await expect(client.submitTransaction(TX)).rejects.toMatchObject({
+        code: ErrorCode.ChainMismatch,
+        details: { field: 'genesisHash' },
+      });
+      const batch = client.batch();
+      batch.submitTransaction(TX);
+      await expect(batch.send()).rejects.toMatchObject({ code: ErrorCode.ChainMismatch });
+      expect(paths).toEqual(['/network_identity']);
+    });
+
+    it('should refuse transactions signed for another chain', async () => {
+      const { transport, paths } = identityTransport(IDENTITY);
+      const client = new TesseraClient(ENDPOINT, {
+        transport,
+        expectedIdentity: { chainId: 'tessera-local' },
+      });
+
+      await expect(
+        client.submitTransaction({ ...TX, chain_id: 'tessera-mainnet' })
+      ).rejects.toMatchObject({ code: ErrorCode.ChainMismatch });
+      expect(paths).toEqual([]);
+    });
+  });
+
+  describe('Hash verification', () => {
+    function hashTransport(nodeHash: string, stored: Record<string, unknown> | null) {
+      const transport: Transport = {
+        async request(request) {
+          if (request.path === '/get_transaction') {
+            if (!stored) return { status: 404, data: { error: 'Transaction not found' } };
+            return { status: 200, data: { transaction: stored, in_mempool: true } };
+          }
+          return {
+            status: 200,
+            data: { jsonrpc: '2.0', result: { hash: nodeHash, status: 'pending' }, id: 1 },
+          };
+        },
+      };
+      return transport;
+    }
+
+    it('should reject a node hash that differs from the local one', async () => {
+      const client = new TesseraClient(ENDPOINT, {
+        transport: hashTransport('ee'.repeat(32), null),
+        verifyHashes: true,
+      });
+
+      await expect(client.submitTransaction(TX)).rejects.toMatchObject({
+        code: ErrorCode.HashMismatch,
+        details: { localHash: TX_HASH, nodeHash: 'ee'.repeat(32) },
+      });
+    });
+
+    it('should accept the node hash in any case', async () => {
+      const client = new TesseraClient(ENDPOINT, {
+        transport: hashTransport(TX_HASH.toUpperCase(), null),
+        verifyHashes: true,
+      });
+
+      await expect(client.submitTransaction(TX)).resolves.toMatchObject({ status: 'pending' });
+    });
+
+    it('should not check hashes by default', async () => {
+      const client = new TesseraClient(ENDPOINT, {
+        transport: hashTransport('ee'.repeat(32), null),
+      });
+
+      await expect(client.submitTransaction(TX)).resolves.toMatchObject({ hash: 'ee'.repeat(32) });
+    });
+
+    it('should diagnose fields changed on the way to the node', async () => {
+      const stored = { ...TX, amount: '1000' };
+      const nodeHash = calculateHash(jsonToTransaction(stored));
+      const client = new TesseraClient(ENDPOINT, { transport: hashTransport(nodeHash, stored) });
+
+      const diagnosis = await client.diagnoseHashMismatch(TX, nodeHash);
+
+      expect(diagnosis).toMatchObject({ localHash: TX_HASH, nodeHash, cause: 'fields' });
+      expect(diagnosis.fields).toEqual([
+        { field: 'amount', local: '0100000000000000', remote: 'e803000000000000' },
+      ]);
+    });
+
+    it('should attribute identical fields to a codec difference', async () => {
+      const client = new TesseraClient(ENDPOINT, { transport: hashTransport('ee'.repeat(32), TX) });
+
+      const diagnosis = await client.diagnoseHashMismatch(TX, 'ee'.repeat(32));
+
+      expect(diagnosis).toMatchObject({ cause: 'codec', fields: [] });
+    });
+
+    it('should report an unknown cause when the node has no copy', async () => {
+      const client = new TesseraClient(ENDPOINT, {
+        transport: hashTransport('ee'.repeat(32), null),
+      });
+
+      const diagnosis = await client.diagnoseHashMismatch(TX, 'ee'.repeat(32));
+
+      expect(diagnosis).toMatchObject({ cause: 'unknown', remote: null });
+    });
+  });
+
+  describe('Offline signing', () => {
+    const cold = KeyPair.generate();
+
+    function envelopeTransport() {
+      const submitted: unknown[] = [];
+      const transport: Transport = {
+        async request(request) {
+          if (request.path === '/network_identity') {
+            const data = { chain_id: 'tessera-local', network_id: 'n', genesis_hash: '00' };
+            return { status: 200, data: { ...data, genesis_time: 0 } };
+          }
+          if (request.path === '/get_account') {
+            return { status: 200, data: { ...ACCOUNT, address: cold.address, nonce: 9 } };
+          }
+          const { params } = request.body as { params: TransactionJson };
+          submitted.push(params);
+          const hash = calculateHash(jsonToTransaction(params));
+          return {
+            status: 200,
+            data: { jsonrpc: '2.0', result: { hash, status: 'pending' }, id: 1 },
+          };
+        },
+      };
+      return { client: new TesseraClient(ENDPOINT, { transport }), submitted };
+    }
+
+    it('should prepare an envelope with the node chain ID and next nonce', async () => {
+      const { client } = envelopeTransport();
+
+      const envelope = await client.createEnvelope(cold.address, (builder, nonce) =>
+        builder.buildStake({ amount: 5_000_000n, nonce })
+      );
+
+      expect(envelope).toMatchObject({
+        chainId: 'tessera-local',
+        from: cold.address,
+        nonce: '10',
+        signed: false,
+      });
+      expect(envelope.summary).toMatch(/^Stake 5 TESS on tessera-local, nonce 10/);
+    });
+
+    it('should broadcast a signed envelope', async () => {
+      const { client, submitted } = envelopeTransport();
+      const envelope = await client.createEnvelope(cold.address, (builder, nonce) =>
+        builder.buildStake({ amount: 1n, nonce })
+      );
+      const signed = signEnvelope(encodeEnvelope(envelope), cold);
+
+      const receipt = await client.broadcastEnvelope(encodeEnvelope(signed));
+
+      expect(receipt.hash).toBe(signed.transaction.hash);
+      expect(submitted).toEqual([signed.transaction]);
+    });
+
+    it('should refuse to broadcast an unsigned envelope', async () => {
+      const { client, submitted } = envelopeTransport();
+      const envelope = await client.createEnvelope(cold.address, (builder, nonce) =>
+        builder.buildStake({ amount: 1n, nonce })
+      );
+
+      await expect(client.broadcastEnvelope(envelope)).rejects.toMatchObject({
+        code: ErrorCode.InvalidSignature,
+        details: { reason: 'unsigned' },
+      });
+      expect(submitted).toEqual([]);
+    });
+  });
+
+  describe('Block ranges', () => {
+    const rawBlock = (height: number) => ({
+      height,
+      timestamp: height,
+      prev_hash: `h${height - 1}`,
+      merkle_root: '00',
+      proposer: 'ab'.repeat(32),
+      transactions: [],
+      hash: `h${height}`,
+    });
+
+    it('should fetch in parallel, preserve order and keep gaps', async () => {
+      let active = 0;
+      let maxActive = 0;
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async (_url: string, init: RequestInit) => {
+          const { height } = JSON.parse(init.body as string);
+          active++;
+          maxActive = Math.max(maxActive, active);
+          // Later heights answer first
+          await new Promise((resolve) => setTimeout(resolve, 10 - height));
+          active--;
+          return height === 3 ? jsonResponse({}, 404) : jsonResponse({ block: rawBlock(height) });
+        })
+      );
+
+      const client = new TesseraClient(ENDPOINT);
+      const blocks = await client.getBlocks(1n, 6n, { concurrency: 3 });
+
+      expect(blocks.map((block) => block?.header.height ?? null)).toEqual([
+        1n,
+        2n,
+        null,
+        4n,
+        5n,
+        6n,
+      ]);
+      expect(maxActive).toBe(3);
+    });
+
+    it('should retry individual heights', async () => {
+      let failures = 1;
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async (_url: string, init: RequestInit) => {
+          const { height } = JSON.parse(init.body as string);
+          if (height === 2 && failures-- > 0) throw new TypeError('fetch failed');
+          return jsonResponse({ block: rawBlock(height) });
+        })
+      );
+
+      const client = new TesseraClient(ENDPOINT, { retry: { maxAttempts: 1 } });
+      const items = [];
+      for await (const item of client.iterateBlocks(1n, 3n, { concurrency: 2 })) {
+        items.push(item);
+      }
+
+      expect(items.map((item) => [item.height, item.block?.hash])).toEqual([
+        [1n, 'h1'],
+        [2n, 'h2'],
+        [3n, 'h3'],
+      ]);
+    });
+
+    it('should surface errors that persist after retries', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => jsonResponse({ error: 'boom' }, 500))
+      );
+
+      const client = new TesseraClient(ENDPOINT, { retry: { maxAttempts: 1 } });
+      await expect(client.getBlocks(1n, 2n, { retries: 0 })).rejects.toMatchObject({
+        code: ErrorCode.RpcError,
+      });
+    });
+
+    it('should retry heights under the client policy without stacking retries', async () => {
+      const fetchMock = vi.fn(async () => jsonResponse({ error: 'boom' }, 503));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const onRetry = vi.fn();
+      const client = new TesseraClient(ENDPOINT, {
+        retry: { maxAttempts: 3, initialDelay: 1, onRetry },
+      });
+      await expect(client.getBlocks(1n, 1n, { retries: 1 })).rejects.toThrow('HTTP 503');
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Receipts', () => {
+    const txs = ['aa', 'bb', 'cc'].map((byte) => ({ ...TX, hash: byte.repeat(32) }));
+    const leaves = txs.map((tx) => hexToBytes(tx.hash));
+    const block = {
+      height: 7,
+      timestamp: 7,
+      prev_hash: 'h6',
+      merkle_root: bytesToHex(merkleRoot(leaves)),
+      proposer: 'ab'.repeat(32),
+      transactions: txs,
+      hash: 'h7',
+    };
+
+    function stubNode(lookup: Record<string, unknown>) {
+      const bodies: Record<string, unknown>[] = [];
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async (url: string, init: RequestInit) => {
+          const body = JSON.parse(init.body as string);
+          bodies.push(body);
+          if (url.endsWith('/get_block')) {
+            return body.hash === 'h7' ? jsonResponse({ block }) : jsonResponse({}, 404);
+          }
+          return jsonResponse({ transaction: txs[2], ...lookup });
+        })
+      );
+      return bodies;
+    }
+
+    it('should get a block by hash', async () => {
+      const bodies = stubNode({});
+      const client = new TesseraClient(ENDPOINT);
+
+      expect((await client.getBlockByHash('h7'))?.header.height).toBe(7n);
+      expect(await client.getBlockByHash('missing')).toBeNull();
+      expect(bodies[0]).toEqual({ hash: 'h7' });
+    });
+
+    it('should return a verifiable inclusion proof', async () => {
+      stubNode({ in_mempool: false, block_height: 7, block_hash: 'h7' });
+      const client = new TesseraClient(ENDPOINT);
+
+      const receipt = await client.getTransactionReceipt(txs[2].hash);
+
+      expect(receipt).toMatchObject({
+        status: 'confirmed',
+        inMempool: false,
+        blockHeight: 7n,
+        blockHash: 'h7',
+        index: 2,
+      });
+      const proof = receipt!.proof!;
+      expect(proof.root).toBe(block.merkle_root);
+      expect(
+        verifyMerkleProof(
+          hexToBytes(proof.leaf),
+          proof.index,
+          proof.siblings.map(hexToBytes),
+          hexToBytes(proof.root)
+        )
+      ).toBe(true);
+    });
+
+    it('should report mempool transactions without a block', async () => {
+      stubNode({ in_mempool: true });
+      const client = new TesseraClient(ENDPOINT);
+
+      const receipt = await client.getTransactionReceipt(txs[2].hash);
+
+      expect(receipt).toEqual({ hash: txs[2].hash, status: 'pending', fee: 0n, inMempool: true });
+    });
+
+    it('should reject blocks whose transactions do not match transactionsRoot', async () => {
+      block.merkle_root = '00'.repeat(32);
+      stubNode({ in_mempool: false, block_hash: 'h7' });
+      const client = new TesseraClient(ENDPOINT);
+
+      await expect(client.getTransactionReceipt(txs[2].hash)).rejects.toMatchObject({
+        code: ErrorCode.InvalidResponse,
+      });
+    });
+
+    it('should skip the block and proof when proof is false', async () => {
+      const bodies = stubNode({ in_mempool: false, block_height: 7, block_hash: 'h7' });
+      const client = new TesseraClient(ENDPOINT);
+
+      const receipt = await client.getTransactionReceipt(txs[2].hash, { proof: false });
+
+      expect(receipt).toEqual({
+        hash: txs[2].hash,
+        status: 'confirmed',
+        fee: 0n,
+        inMempool: false,
+        blockHeight: 7n,
+        blockHash: 'h7',
+      });
+      expect(bodies).toEqual([{ tx_hash: txs[2].hash }]);
+    });
+  });
+
+  describe('iterateTransactions', () => {
+    const history = (count: number) =>
+      Array.from({ length: count }, (_, i) => ({
+        ...TX,
+        tx_type: i % 2 === 0 ? 'transfer' : 'stake',
+        nonce: String(count - i),
+        hash: `tx${count - i}`,
+      }));
+
+    function stubHistory(transactions: ReturnType<typeof history>) {
+      const bodies: Record<string, unknown>[] = [];
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async (url: string, init: RequestInit) => {
+          if (url.endsWith('/network_status'))
+            return jsonResponse({ ...STATUS, current_height: 9 });
+          const body = JSON.parse(init.body as string);
+          bodies.push(body);
+          return jsonResponse({
+            transactions: transactions.slice(body.offset, body.offset + body.limit),
+          });
+        })
+      );
+      return bodies;
+    }
+
+    it('should page through the history and pin the height range', async () => {
+      const bodies = stubHistory(history(5));
+
+      const client = new TesseraClient(ENDPOINT);
+      const hashes: string[] = [];
+      for await (const tx of client.iterateTransactions(ACCOUNT.address, { pageSize: 2 })) {
+        hashes.push(tx.hash!);
+      }
+
+      expect(hashes).toEqual(['tx5', 'tx4', 'tx3', 'tx2', 'tx1']);
+      expect(bodies.map((body) => body.offset)).toEqual([0, 2, 4]);
+      expect(bodies[0]).toMatchObject({ order: 'desc', to_height: 9 });
+    });
+
+    it('should reject a page size that is not a positive integer', async () => {
+      const bodies = stubHistory(history(5));
+
+      const client = new TesseraClient(ENDPOINT);
+      for (const pageSize of [0, -1, 1.5]) {
+        await expect(
+          client.iterateTransactions(ACCOUNT.address, { pageSize })[Symbol.asyncIterator]().next()
+        ).rejects.toMatchObject({ code: ErrorCode.InvalidArgument, details: { pageSize } });
+      }
+      expect(bodies).toEqual([]);
+    });
+
+    it('should filter by transaction type', async () => {
+      stubHistory(history(5));
+
+      const client = new TesseraClient(ENDPOINT);
+      const types: string[] = [];
+      for await (const tx of client.iterateTransactions(ACCOUNT.address, {
+        pageSize: 2,
+        txTypes: [TxType.Stake],
+      })) {
+        types.push(tx.tx_type);
+      }
+
+      expect(types).toEqual(['stake', 'stake']);
+    });
+
+    it('should not repeat transactions when new ones arrive mid-iteration', async () => {
+      const transactions = history(4);
+      stubHistory(transactions);
+
+      const client = new TesseraClient(ENDPOINT);
+      const hashes: string[] = [];
+      for await (const tx of client.iterateTransactions(ACCOUNT.address, { pageSize: 2 })) {
+        hashes.push(tx.hash!);
+        // A node ignoring to_height shifts older transactions to later offsets
+        if (hashes.length === 1) transactions.unshift({ ...TX, nonce: '5', hash: 'tx5' });
+      }
+
+      expect(hashes).toEqual(['tx4', 'tx3', 'tx2', 'tx1']);
+    });
+  });
+});
+
+describe('TesseraClientPool', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  interface FakeNode {
+    height: number;
+    genesis: string;
+    down?: boolean;
+  }
+
+  function stubNodes(nodes: Record<string, FakeNode>) {
+    const fetchMock = vi.fn(async (url: string) => {
+      const { origin, pathname } = new URL(url);
+      const node = nodes[origin];
+      if (!node || node.down) throw new TypeError('fetch failed');
+
+      switch (pathname) {
+        case '/health':
+          return jsonResponse({ status: 'ok' });
+        case '/network_status':
+          return jsonResponse({
+            ...STATUS,
+            current_height: node.height,
+            chain_id: 'tessera-local',
+          });
+        case '/network_identity':
+          return jsonResponse({
+            chain_id: 'tessera-local',
+            network_id: 'abcd',
+            genesis_hash: node.genesis,
+            genesis_time: 0,
+          });
+        case '/get_account':
+          return jsonResponse({ ...ACCOUNT, balance: node.height });
+        default:
+          return jsonResponse({}, 404);
+      }
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  }
+
+  it('should route to the healthy node with the highest height', async () => {
+    stubNodes({
+      'http://a.test': { height: 10, genesis: 'g1' },
+      'http://b.test': { height: 12, genesis: 'g1' },
+      'http://c.test': { height: 20, genesis: 'g1', down: true },
+    });
+
+    const pool = new TesseraClientPool(['http://a.test', 'http://b.test', 'http://c.test']);
+    const account = await pool.execute((client) => client.getAccount(ACCOUNT.address));
+
+    expect(account.balance).toBe(12n);
+    expect(pool.getStatus().find((n) => n.endpoint === 'http://c.test')?.healthy).toBe(false);
+  });
+
+  it('should refuse nodes with a different genesis hash', async () => {
+    stubNodes({
+      'http://a.test': { height: 10, genesis: 'g1' },
+      'http://b.test': { height: 10, genesis: 'g1' },
+      'http://c.test': { height: 99, genesis: 'other' },
+    });
+
+    const pool = new TesseraClientPool(['http://a.test', 'http://b.test', 'http://c.test']);
+    const account = await pool.execute((client) => client.getAccount(ACCOUNT.address));
+
+    expect(account.balance).toBe(10n);
+    expect(pool.getGenesisHash()).toBe('g1');
+    expect(pool.getStatus()[2].genesisMismatch).toBe(true);
+  });
+
+  it('should fail over when the best node fails', async () => {
+    const nodes = {
+      'http://a.test': { height: 10, genesis: 'g1' },
+      'http://b.test': { height: 12, genesis: 'g1' } as FakeNode,
+    };
+    stubNodes(nodes);
+
+    const pool = new TesseraClientPool(['http://a.test', 'http://b.test']);
+    await pool.refresh();
+    nodes['http://b.test'].down = true;
+
+    const account = await pool.execute((client) => client.getAccount(ACCOUNT.address));
+
+    expect(account.balance).toBe(10n);
+    expect(pool.getStatus()[1].healthy).toBe(false);
+  });
+
+  it('should throw when no node is available', async () => {
+    stubNodes({ 'http://a.test': { height: 1, genesis: 'g1', down: true } });
+
+    const pool = new TesseraClientPool(['http://a.test']);
+
+    await expect(pool.getClient()).rejects.toThrow('No healthy Tessera nodes available');
+  });
+});
@@ -3,6 +3,9 @@ import {
   KeyPair,
   hash,
   hashHex,
+  merkleRoot,
+  merkleProof,
+  verifyMerkleProof,
   generateMnemonicPhrase,
   isValidMnemonic,
   mnemonicToKeyPair,
@@ -89,6 +92,26 @@ describe('Hash', () => {
   });
 });
 
+describe('Merkle proofs', () => {
+  it('should prove every leaf, including a duplicated odd leaf', () => {
+    const leaves = ['a', 'b', 'c', 'd', 'e'].map((leaf) => hash(leaf));
+    const root = merkleRoot(leaves);
+
+    leaves.forEach((leaf, index) => {
+      expect(verifyMerkleProof(leaf, index, merkleProof(leaves, index), root)).toBe(true);
+    });
+  });
+
+  it('should reject a proof for the wrong leaf or position', () => {
+    const leaves = ['a', 'b', 'c'].map((leaf) => hash(leaf));
+    const root = merkleRoot(leaves);
+    const proof = merkleProof(leaves, 1);
+
+    expect(verifyMerkleProof(leaves[0], 1, proof, root)).toBe(false);
+    expect(verifyMerkleProof(leaves[1], 0, proof, root)).toBe(false);
+  });
+});
+
 describe('Mnemonic', () => {
   it('should generate valid 12-word mnemonic', () => {
     const mnemonic = generateMnemonicPhrase(12);
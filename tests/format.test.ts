@@ -3,6 +3,8 @@ import {
   bytesToHex,
   hexToBytes,
   isValidHex,
+  bytesToBase64Url,
+  base64UrlToBytes,
   isValidAddress,
   parseAddress,
   formatAddress,
@@ -43,6 +45,35 @@ describe('Hex Encoding', () => {
   });
 });
 
+describe('Base64url Encoding', () => {
+  const text = (value: string) => new TextEncoder().encode(value);
+
+  it('should encode RFC 4648 test vectors without padding', () => {
+    expect(bytesToBase64Url(text(''))).toBe('');
+    expect(bytesToBase64Url(text('f'))).toBe('Zg');
+    expect(bytesToBase64Url(text('fo'))).toBe('Zm8');
+    expect(bytesToBase64Url(text('foo'))).toBe('Zm9v');
+    expect(bytesToBase64Url(text('foobar'))).toBe('Zm9vYmFy');
+    expect(bytesToBase64Url(new Uint8Array([0xfb, 0xff]))).toBe('-_8');
+  });
+
+  it('should decode padded and unpadded input', () => {
+    expect(base64UrlToBytes('Zm9vYg==')).toEqual(text('foob'));
+    expect(base64UrlToBytes('Zm9vYmE')).toEqual(text('fooba'));
+    expect(base64UrlToBytes('-_8')).toEqual(new Uint8Array([0xfb, 0xff]));
+  });
+
+  it('should round-trip arbitrary bytes', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(base64UrlToBytes(bytesToBase64Url(bytes))).toEqual(bytes);
+  });
+
+  it('should reject invalid input', () => {
+    expect(() => base64UrlToBytes('Zm9v+A')).toThrow('Invalid base64url character at position 4');
+    expect(() => base64UrlToBytes('Z')).toThrow('Invalid base64url length');
+  });
+});
+
 describe('Address Formatting', () => {
   const validAddress = '0'.repeat(64);
   const shortAddress = '0'.repeat(32);
@@ -11,6 +11,10 @@ import {
   Wallet,
   formatAmount,
   formatAmountWithSymbol,
+  calculateHash,
+  jsonToTransaction,
+  serializeTransaction,
+  bytesToHex,
 } from '../src/index.js';
 
 // Skip these tests if node is not running
@@ -69,7 +73,7 @@ describe('Integration Tests', () => {
 
       expect(status.chainId).toBe('tessera-devnet-1');
       expect(status.blockHeight).toBeGreaterThan(0n);
-      expect(typeof status.peerCount).toBe('number');
+      expect(typeof status.mempoolSize).toBe('number');
     });
   });
 
@@ -205,6 +209,27 @@ describe('Integration Tests', () => {
     });
   });
 
+  describe('Transaction Hashes', () => {
+    it('should compute the same hash as the node', async () => {
+      if (!nodeAvailable) {
+        console.log('⚠️  Skipping: Node not available');
+        return;
+      }
+
+      const signedTx = await genesisWallet.signTransfer({
+        to: testWallet.address,
+        amount: '1',
+      });
+      const rawClient = new TesseraClient(NODE_URL);
+      const receipt = await rawClient.submitTransaction(signedTx);
+
+      // Printed so the pair can be added to tests/fixtures/bincode-vectors.json
+      console.log(`Node hash: ${receipt.hash}`);
+      console.log(`Bytes: ${bytesToHex(serializeTransaction(jsonToTransaction(signedTx)))}`);
+      expect(receipt.hash).toBe(calculateHash(jsonToTransaction(signedTx)));
+    });
+  });
+
   describe('Wallet Operations', () => {
     it('should generate wallet with mnemonic', () => {
       const { wallet, mnemonic } = Wallet.generate();
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Network,
+  TesseraClient,
+  Wallet,
+  ChainIds,
+  RpcEndpoints,
+  ErrorCode,
+  type Transport,
+} from '../src/index.js';
+
+describe('Network', () => {
+  it('should provide the built-in presets', () => {
+    expect(Network.list().map((network) => network.name)).toEqual(
+      expect.arrayContaining(['mainnet', 'testnet', 'devnet', 'local'])
+    );
+
+    const testnet = Network.get('testnet');
+    expect(testnet.chainId).toBe(ChainIds.TESTNET);
+    expect(testnet.rpcEndpoint).toBe(RpcEndpoints.TESTNET);
+    expect(testnet.expectedIdentity).toEqual({ chainId: ChainIds.TESTNET });
+  });
+
+  it('should refuse to create clients for networks without endpoints', () => {
+    expect(() => TesseraClient.forNetwork('devnet')).toThrow(
+      expect.objectContaining({ code: ErrorCode.InvalidArgument })
+    );
+    expect(Wallet.generate({ network: 'devnet' }).wallet.isConnected).toBe(false);
+  });
+
+  it('should fill explorer URL templates', () => {
+    const explorer = Network.get({
+      name: 'explorer',
+      chainId: 'explorer-1',
+      rpcEndpoints: ['https://rpc.explorer.test'],
+      explorer: {
+        transaction: 'https://scan.test/tx/{hash}',
+        block: 'https://scan.test/b/{height}',
+      },
+    });
+
+    expect(explorer.explorerUrl('transaction', 'ab')).toBe('https://scan.test/tx/ab');
+    expect(explorer.explorerUrl('block', 42n)).toBe('https://scan.test/b/42');
+    expect(explorer.explorerUrl('address', 'ab')).toBeNull();
+    expect(Network.get('mainnet').explorerUrl('transaction', 'ab')).toBeNull();
+  });
+
+  it('should register custom networks but not replace presets', () => {
+    Network.register({
+      name: 'acme',
+      chainId: 'acme-1',
+      rpcEndpoints: ['https://rpc.acme.test'],
+      genesisHash: 'ab'.repeat(32),
+      decimals: 2,
+    });
+
+    expect(Network.get('acme').expectedIdentity).toEqual({
+      chainId: 'acme-1',
+      genesisHash: 'ab'.repeat(32),
+    });
+    expect(() =>
+      Network.register({ name: 'mainnet', chainId: 'x', rpcEndpoints: ['http://x.test'] })
+    ).toThrow(expect.objectContaining({ code: ErrorCode.InvalidArgument }));
+  });
+
+  it('should reject unknown network names', () => {
+    expect(() => Network.get('nope')).toThrow(
+      expect.objectContaining({ code: ErrorCode.UnknownNetwork })
+    );
+  });
+
+  it('should configure clients pinned to the network', async () => {
+    const paths: string[] = [];
+    const transport: Transport = {
+      async request(request) {
+        paths.push(request.url);
+        return {
+          status: 200,
+          data: {
+            chain_id: 'tessera-mainnet-1',
+            network_id: 'mainnet',
+            genesis_hash: '00',
+            genesis_time: 0,
+          },
+        };
+      },
+    };
+
+    const client = TesseraClient.forNetwork('testnet', { transport });
+
+    await expect(client.verifyNetworkIdentity()).rejects.toMatchObject({
+      code: ErrorCode.ChainMismatch,
+    });
+    expect(paths).toEqual([`${RpcEndpoints.TESTNET}/network_identity`]);
+  });
+
+  it('should configure wallets from a network', async () => {
+    Network.register({
+      name: 'cents',
+      chainId: 'cents-1',
+      rpcEndpoints: ['https://rpc.cents.test'],
+      decimals: 2,
+    });
+    expect(Wallet.generate({ network: 'cents' }).wallet.isConnected).toBe(true);
+
+    const transport: Transport = {
+      async request() {
+        return {
+          status: 200,
+          data: { chain_id: 'cents-1', network_id: 'cents', genesis_hash: '00', genesis_time: 0 },
+        };
+      },
+    };
+    const { wallet } = Wallet.generate({
+      network: 'cents',
+      client: new TesseraClient('https://rpc.cents.test', { transport }),
+    });
+
+    const signedTx = await wallet.signTransfer({ to: '0'.repeat(64), amount: '1.5', nonce: 1n });
+
+    expect(signedTx.chain_id).toBe('cents-1');
+    expect(signedTx.amount).toBe('150');
+  });
+});
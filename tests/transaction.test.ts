@@ -8,9 +8,24 @@ import {
   jsonToTransaction,
   calculateFee,
   calculateHash,
+  serializeTransaction,
+  serializeForSigning,
+  deserializeTransaction,
+  decodeTransaction,
+  verifyTransaction,
+  createEnvelope,
+  encodeEnvelope,
+  decodeEnvelope,
+  signEnvelope,
+  verifyBlockTransactions,
+  ErrorCode,
+  type TransactionJson,
+  bytesToHex,
+  hexToBytes,
   BASE_FEE,
   STAKING_FEE,
 } from '../src/index.js';
+import goldenVectors from './fixtures/bincode-vectors.json';
 
 describe('TransactionBuilder', () => {
   const keyPair = KeyPair.generate();
@@ -200,6 +215,19 @@ describe('Transaction Utilities', () => {
       expect(restored.amount).toBe(original.amount);
       expect(restored.nonce).toBe(original.nonce);
     });
+
+    it('should reject unknown transaction types', () => {
+      const json = transactionToJson(
+        builder.signTransfer({ to: recipientAddress, amount: 1n, nonce: 1n })
+      );
+
+      expect(() => jsonToTransaction({ ...json, tx_type: 'mint' })).toThrow(
+        expect.objectContaining({
+          code: ErrorCode.InvalidTransaction,
+          message: 'Unknown transaction type "mint"',
+        })
+      );
+    });
   });
 
   describe('calculateHash', () => {
@@ -235,3 +263,388 @@ describe('Transaction Utilities', () => {
     });
   });
 });
+
+describe('Bincode codec', () => {
+  const base = {
+    chainId: 'tessera-testnet-1',
+    from: new Uint8Array(32).fill(0x11),
+    to: new Uint8Array(32).fill(0x22),
+    amount: 1_000_000n,
+    nonce: 7n,
+    timestamp: 1699876543n,
+    signature: new Uint8Array(64).fill(0xab),
+  };
+
+  // Provenance of these vectors is recorded in the fixture's `source` field
+  for (const vector of goldenVectors.vectors) {
+    const tx = jsonToTransaction(vector.transaction);
+
+    it(`should encode ${vector.name}`, () => {
+      expect(bytesToHex(serializeTransaction(tx))).toBe(vector.bytes);
+      expect(calculateHash(tx)).toBe(vector.hash);
+    });
+
+    it(`should decode ${vector.name}`, () => {
+      expect(deserializeTransaction(hexToBytes(vector.bytes))).toEqual(tx);
+    });
+  }
+
+  it('should encode txType as u32 for both signing and hashing', () => {
+    const tx = { ...base, txType: TxType.Vote, payload: null };
+    const signing = serializeForSigning(tx);
+    const full = serializeTransaction(tx);
+
+    expect(signing.length).toBe(full.length);
+    expect(bytesToHex(signing.slice(0, 4))).toBe('04000000');
+    expect(bytesToHex(signing.slice(0, -64))).toBe(bytesToHex(full.slice(0, -64)));
+    expect(signing.slice(-64).every((b) => b === 0)).toBe(true);
+  });
+
+  it('should round-trip a signed transaction', () => {
+    const builder = new TransactionBuilder(KeyPair.generate(), 'tessera-testnet-1');
+    const tx = builder.signTransfer({
+      to: '0'.repeat(64),
+      amount: 5n,
+      payload: new Uint8Array([9, 8, 7]),
+      nonce: 3n,
+    });
+
+    expect(deserializeTransaction(serializeTransaction(tx))).toEqual(tx);
+  });
+
+  it('should reject truncated input', () => {
+    const bytes = serializeTransaction({ ...base, txType: TxType.Transfer, payload: null });
+    expect(() => deserializeTransaction(bytes.slice(0, -1))).toThrow(/Unexpected end of input/);
+  });
+
+  it('should reject trailing bytes', () => {
+    const bytes = serializeTransaction({ ...base, txType: TxType.Transfer, payload: null });
+    const padded = new Uint8Array([...bytes, 0]);
+    expect(() => deserializeTransaction(padded)).toThrow(/trailing bytes/);
+  });
+
+  it('should reject unknown transaction types and Option tags', () => {
+    const bytes = serializeTransaction({ ...base, txType: TxType.Transfer, payload: null });
+    const badType = bytes.slice();
+    badType[0] = 9;
+    expect(() => deserializeTransaction(badType)).toThrow(/Unknown enum variant 9/);
+
+    const badTag = bytes.slice();
+    badTag[4 + 8 + 17 + 64 + 8] = 2;
+    expect(() => deserializeTransaction(badTag)).toThrow(/Invalid Option tag 2/);
+  });
+});
+
+describe('decodeTransaction', () => {
+  const builder = new TransactionBuilder(KeyPair.generate(), 'tessera-testnet-1');
+
+  function withPayload(json: TransactionJson, payload: unknown): TransactionJson {
+    return { ...json, payload: bytesToHex(new TextEncoder().encode(JSON.stringify(payload))) };
+  }
+
+  it('should decode a transfer memo', () => {
+    const tx = builder.signTransfer({ to: '0'.repeat(64), amount: 1n, payload: 'gm', nonce: 1n });
+    const decoded = decodeTransaction(transactionToJson(tx));
+
+    expect(decoded.txType).toBe(TxType.Transfer);
+    if (decoded.txType !== TxType.Transfer) return;
+    expect(decoded.memo).toBe('gm');
+    expect(decoded.hash).toBe(calculateHash(tx));
+  });
+
+  it('should keep binary transfer payloads without a memo', () => {
+    const tx = builder.signTransfer({
+      to: '0'.repeat(64),
+      amount: 1n,
+      payload: new Uint8Array([0xff, 0xfe]),
+      nonce: 1n,
+    });
+    const decoded = decodeTransaction(transactionToJson(tx));
+
+    expect(decoded).toMatchObject({ memo: null, rawPayload: new Uint8Array([0xff, 0xfe]) });
+  });
+
+  it('should decode a vote payload', () => {
+    const tx = builder.signVote({ proposalId: 7n, option: VoteOption.NoWithVeto, nonce: 1n });
+    const decoded = decodeTransaction(transactionToJson(tx));
+
+    expect(decoded.txType).toBe(TxType.Vote);
+    if (decoded.txType !== TxType.Vote) return;
+    expect(decoded.vote).toEqual({ proposalId: 7n, option: VoteOption.NoWithVeto });
+  });
+
+  it('should decode a proposal payload', () => {
+    const tx = builder.signSubmitProposal({
+      title: 'Raise validator cap',
+      description: 'More validators',
+      changes: [{ param: 'max_validators', value: 150 }],
+      deposit: 1n,
+      nonce: 1n,
+    });
+    const decoded = decodeTransaction(transactionToJson(tx));
+
+    expect(decoded).toMatchObject({
+      txType: TxType.SubmitProposal,
+      proposal: {
+        title: 'Raise validator cap',
+        description: 'More validators',
+        changes: [{ param: 'max_validators', value: 150 }],
+      },
+    });
+  });
+
+  it('should reject payloads that do not match the transaction type', () => {
+    const proposal = transactionToJson(
+      builder.signSubmitProposal({
+        title: 't',
+        description: 'd',
+        changes: [],
+        deposit: 1n,
+        nonce: 1n,
+      })
+    );
+    const vote = { ...proposal, tx_type: 'vote' };
+
+    expect(() => decodeTransaction(vote)).toThrow(
+      expect.objectContaining({
+        code: ErrorCode.InvalidTransaction,
+        message: 'Invalid vote payload: missing proposal_id, option',
+      })
+    );
+  });
+
+  it('should reject malformed vote payloads', () => {
+    const vote = transactionToJson(
+      builder.signVote({ proposalId: 1n, option: VoteOption.Yes, nonce: 1n })
+    );
+
+    expect(() => decodeTransaction({ ...vote, payload: null })).toThrow(/payload is missing/);
+    expect(() => decodeTransaction({ ...vote, payload: 'ff' })).toThrow(/not UTF-8 JSON/);
+    expect(() => decodeTransaction(withPayload(vote, [1]))).toThrow(/not a JSON object/);
+    expect(() => decodeTransaction(withPayload(vote, { proposal_id: -1, option: 'yes' }))).toThrow(
+      /proposal_id must be a non-negative integer/
+    );
+    expect(() => decodeTransaction(withPayload(vote, { proposal_id: 1, option: 'maybe' }))).toThrow(
+      /unknown vote option "maybe"/
+    );
+    expect(() =>
+      decodeTransaction(withPayload(vote, { proposal_id: 1, option: 'yes', weight: 2 }))
+    ).toThrow(/unexpected weight/);
+  });
+
+  it('should reject malformed proposal changes', () => {
+    const proposal = transactionToJson(
+      builder.signSubmitProposal({
+        title: 't',
+        description: 'd',
+        changes: [],
+        deposit: 1n,
+        nonce: 1n,
+      })
+    );
+    const payload = { title: 't', description: 'd', changes: [{ param: 'quorum' }] };
+
+    expect(() => decodeTransaction(withPayload(proposal, payload))).toThrow(/changes\[0\] must be/);
+  });
+
+  it('should reject payloads on stake transactions and unknown types', () => {
+    const stake = transactionToJson(builder.signStake({ amount: 1n, nonce: 1n }));
+
+    expect(() => decodeTransaction({ ...stake, payload: '00' })).toThrow(
+      'Invalid stake payload: payload must be empty'
+    );
+    expect(() => decodeTransaction({ ...stake, tx_type: 'mint' })).toThrow(
+      'Unknown transaction type "mint"'
+    );
+  });
+});
+
+describe('verifyTransaction', () => {
+  const builder = new TransactionBuilder(KeyPair.generate(), 'tessera-testnet-1');
+  const signed = builder.signTransfer({ to: '0'.repeat(64), amount: 10n, nonce: 1n });
+
+  it('should accept a correctly signed transaction and its JSON form', () => {
+    const hash = calculateHash(signed);
+
+    expect(verifyTransaction(signed)).toEqual({ valid: true, hash });
+    expect(verifyTransaction(transactionToJson(signed))).toEqual({ valid: true, hash });
+  });
+
+  it('should reject a transaction modified after signing', () => {
+    const result = verifyTransaction({ ...signed, amount: 11n });
+
+    expect(result).toMatchObject({ valid: false, reason: 'invalid_signature' });
+  });
+
+  it('should reject a transaction signed by another key', () => {
+    const other = new TransactionBuilder(KeyPair.generate(), 'tessera-testnet-1');
+    const forged = { ...other.sign(signed), from: signed.from };
+
+    expect(verifyTransaction(forged)).toMatchObject({ valid: false, reason: 'invalid_signature' });
+  });
+
+  it('should report unsigned transactions', () => {
+    const unsigned = builder.buildTransfer({ to: '0'.repeat(64), amount: 10n, nonce: 1n });
+
+    expect(verifyTransaction(unsigned)).toMatchObject({ valid: false, reason: 'unsigned' });
+  });
+
+  it('should report a JSON hash that does not match the fields', () => {
+    const json = { ...transactionToJson(signed), hash: 'ee'.repeat(32) };
+
+    expect(verifyTransaction(json)).toMatchObject({
+      valid: false,
+      reason: 'hash_mismatch',
+      hash: calculateHash(signed),
+    });
+  });
+
+  it('should report malformed transactions', () => {
+    const json = transactionToJson(signed);
+
+    expect(verifyTransaction({ ...json, from: 'abcd' })).toMatchObject({
+      valid: false,
+      hash: null,
+      reason: 'malformed',
+      message: 'Expected 32 bytes, got 2',
+    });
+    expect(verifyTransaction({ ...json, tx_type: 'mint' })).toMatchObject({
+      reason: 'malformed',
+      message: 'Unknown transaction type "mint"',
+    });
+  });
+
+  it('should verify every transaction in a block', () => {
+    const good = transactionToJson(signed);
+    const bad = transactionToJson({ ...signed, nonce: 2n });
+    const block = {
+      header: {
+        height: 1n,
+        timestamp: 0n,
+        previousHash: '',
+        transactionsRoot: '',
+        stateRoot: '',
+        proposer: '',
+      },
+      transactions: [good, bad],
+      hash: '',
+    };
+
+    const result = verifyBlockTransactions(block);
+
+    expect(result.valid).toBe(false);
+    expect(result.invalidCount).toBe(1);
+    expect(result.results.map((r) => [r.index, r.valid])).toEqual([
+      [0, true],
+      [1, false],
+    ]);
+    expect(verifyBlockTransactions([good]).valid).toBe(true);
+  });
+});
+
+describe('Transaction envelopes', () => {
+  const keyPair = KeyPair.generate();
+  const watchOnly = new TransactionBuilder(keyPair.address, 'tessera-testnet-1');
+  const unsignedTx = watchOnly.buildTransfer({
+    to: 'cd'.repeat(32),
+    amount: 1_500_000n,
+    payload: 'rent',
+    nonce: 4n,
+    timestamp: 1699876543n,
+  });
+
+  it('should build but not sign without a private key', () => {
+    expect(watchOnly.address).toBe(keyPair.address);
+    expect(() => watchOnly.sign(unsignedTx)).toThrow(
+      expect.objectContaining({ code: ErrorCode.SigningError })
+    );
+  });
+
+  it('should describe the transaction in the envelope', () => {
+    const envelope = createEnvelope(unsignedTx, { symbol: 'TST' });
+
+    expect(envelope).toMatchObject({
+      version: 1,
+      chainId: 'tessera-testnet-1',
+      from: keyPair.address,
+      nonce: '4',
+      fee: calculateFee(unsignedTx).toString(),
+      signed: false,
+      summary:
+        `Transfer 1.5 TST to ${'cd'.repeat(32)} with memo "rent" ` +
+        'on tessera-testnet-1, nonce 4, fee 0.0011 TST',
+    });
+  });
+
+  it('should round-trip through JSON and the compact encoding', () => {
+    const envelope = createEnvelope(unsignedTx);
+    const compact = encodeEnvelope(envelope);
+
+    expect(compact).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(compact.length).toBeLessThan(JSON.stringify(envelope).length / 2);
+    expect(decodeEnvelope(compact)).toEqual(envelope);
+    expect(decodeEnvelope(JSON.stringify(envelope))).toEqual(envelope);
+  });
+
+  it('should sign offline and verify', () => {
+    const signed = signEnvelope(encodeEnvelope(createEnvelope(unsignedTx)), keyPair);
+
+    expect(signed.signed).toBe(true);
+    expect(verifyTransaction(signed.transaction)).toMatchObject({ valid: true });
+    expect(() => signEnvelope(signed, keyPair)).toThrow('Envelope is already signed');
+  });
+
+  it('should refuse to sign with a key other than the sender', () => {
+    expect(() => signEnvelope(createEnvelope(unsignedTx), KeyPair.generate())).toThrow(
+      expect.objectContaining({ code: ErrorCode.SigningError })
+    );
+  });
+
+  it('should reject a summary that does not match the transaction', () => {
+    const envelope = { ...createEnvelope(unsignedTx), summary: 'Transfer 0.01 TESS' };
+
+    expect(() => decodeEnvelope(envelope)).toThrow(
+      expect.objectContaining({
+        code: ErrorCode.InvalidTransaction,
+        details: expect.objectContaining({ field: 'summary' }),
+      })
+    );
+  });
+
+  it('should refuse to sign an envelope with tampered display settings', () => {
+    const transfer = watchOnly.buildTransfer({
+      to: 'cd'.repeat(32),
+      amount: 1_000_000n * 1_000_000n,
+      nonce: 5n,
+    });
+    // decimals and summary edited together pass the summary check on their own
+    const tampered = createEnvelope(transfer, { decimals: 18 });
+    expect(tampered.summary).toMatch(/^Transfer 0.000001 TESS/);
+    expect(decodeEnvelope(JSON.stringify(tampered)).decimals).toBe(18);
+
+    for (const input of [tampered, encodeEnvelope(tampered)]) {
+      expect(() => signEnvelope(input, keyPair)).toThrow(
+        expect.objectContaining({
+          code: ErrorCode.InvalidTransaction,
+          details: { field: 'decimals', envelope: 18, expected: 6 },
+        })
+      );
+    }
+    expect(() => signEnvelope(createEnvelope(transfer, { symbol: 'USD' }), keyPair)).toThrow(
+      'Envelope symbol USD differs from the expected TESS'
+    );
+    expect(signEnvelope(tampered, keyPair, { decimals: 18 }).signed).toBe(true);
+  });
+
+  it('should reject unsupported versions and malformed input', () => {
+    const envelope = createEnvelope(unsignedTx);
+
+    expect(() => decodeEnvelope({ ...envelope, version: 2 as 1 })).toThrow(
+      'Unsupported envelope version 2'
+    );
+    expect(() => decodeEnvelope('{not json')).toThrow('Envelope is not valid JSON');
+    expect(() => decodeEnvelope(encodeEnvelope(envelope).slice(0, 40))).toThrow(
+      /Unexpected end of input/
+    );
+  });
+});
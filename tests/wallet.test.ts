@@ -1,5 +1,39 @@
-import { describe, it, expect } from 'vitest';
-import { Wallet, KeyPair, isValidMnemonic } from '../src/index.js';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  Wallet,
+  KeyPair,
+  TesseraClient,
+  ErrorCode,
+  isValidMnemonic,
+  calculateHash,
+  jsonToTransaction,
+  TransactionBuilder,
+  createEnvelope,
+  verifyTransaction,
+  type Transport,
+  type TransportRequest,
+  type TransactionJson,
+} from '../src/index.js';
+
+const IDENTITY = {
+  chain_id: 'tessera-testnet-1',
+  network_id: 'testnet',
+  genesis_hash: 'ab'.repeat(32),
+  genesis_time: 0,
+};
+
+/** tx_submit response echoing the submitted transaction's hash */
+function submitResponse(request: TransportRequest) {
+  const { params } = request.body as { params: TransactionJson };
+  return {
+    status: 200,
+    data: {
+      jsonrpc: '2.0',
+      result: { hash: calculateHash(jsonToTransaction(params)), status: 'pending' },
+      id: 1,
+    },
+  };
+}
 
 describe('Wallet', () => {
   describe('Generation', () => {
@@ -140,4 +174,193 @@ describe('Wallet', () => {
       expect(wallet.isConnected).toBe(true);
     });
   });
+
+  describe('Instrumentation', () => {
+    it('should report confirmation latency from wait', async () => {
+      let lookups = 0;
+      const paths: string[] = [];
+      const transport: Transport = {
+        async request(request) {
+          paths.push(request.path);
+          if (request.path === '/get_account') {
+            return { status: 200, data: { address: '', balance: 0, nonce: 0, exists: true } };
+          }
+          if (request.path === '/get_transaction') {
+            const params = request.body as { tx_hash: string };
+            const transaction = {
+              tx_type: 'transfer',
+              chain_id: '',
+              from: '00',
+              to: '00',
+              amount: '1',
+              payload: null,
+              nonce: '1',
+              timestamp: '1',
+              signature: '00',
+              hash: params.tx_hash,
+            };
+            return ++lookups === 1
+              ? { status: 200, data: { transaction, in_mempool: true } }
+              : { status: 200, data: { transaction, in_mempool: false, block_height: 12 } };
+          }
+          return submitResponse(request);
+        },
+      };
+      const onEvent = vi.fn();
+      const { wallet } = Wallet.generate({
+        client: new TesseraClient('http://node.test', { transport }),
+        instrumentation: { onEvent },
+      });
+
+      const pending = await wallet.transfer({ to: '0'.repeat(64), amount: '1' });
+      const receipt = await pending.wait();
+
+      expect(lookups).toBe(2);
+      expect(receipt).toMatchObject({ status: 'confirmed', inMempool: false, blockHeight: 12n });
+      // Confirmation doesn't depend on fetching the block for an inclusion proof
+      expect(paths).not.toContain('/get_block');
+      const confirmed = onEvent.mock.calls.filter(
+        ([event]) => event.type === 'transaction:confirmed'
+      );
+      expect(confirmed).toEqual([
+        [
+          {
+            type: 'transaction:confirmed',
+            hash: pending.hash,
+            latencyMs: expect.any(Number),
+            blockHeight: 12n,
+          },
+        ],
+      ]);
+      expect(confirmed[0][0].latencyMs).toBeGreaterThanOrEqual(1000);
+    });
+  });
+
+  describe('Network identity', () => {
+    function nodeClient(identity: typeof IDENTITY) {
+      const paths: string[] = [];
+      const transport: Transport = {
+        async request(request) {
+          paths.push(request.path);
+          if (request.path === '/network_identity') return { status: 200, data: identity };
+          if (request.path === '/get_account') {
+            return { status: 200, data: { address: '', balance: 0, nonce: 0, exists: true } };
+          }
+          return submitResponse(request);
+        },
+      };
+      return { client: new TesseraClient('http://node.test', { transport }), paths };
+    }
+
+    it('should default the chain ID to the pinned identity', async () => {
+      const { wallet } = Wallet.generate({ expectedIdentity: { chainId: 'tessera-testnet-1' } });
+
+      const signedTx = await wallet.signTransfer({ to: '0'.repeat(64), amount: '1', nonce: 1n });
+
+      expect(signedTx.chain_id).toBe('tessera-testnet-1');
+    });
+
+    it('should reject a pin that contradicts the wallet chain ID', () => {
+      expect(() =>
+        Wallet.generate({ chainId: 'other', expectedIdentity: { chainId: 'tessera-testnet-1' } })
+      ).toThrow(expect.objectContaining({ code: ErrorCode.ChainMismatch }));
+    });
+
+    it('should verify the node once before signing', async () => {
+      const { client, paths } = nodeClient(IDENTITY);
+      const { wallet } = Wallet.generate({ chainId: 'tessera-testnet-1' });
+      wallet.connect(client, { expectedIdentity: { genesisHash: IDENTITY.genesis_hash } });
+
+      await wallet.transfer({ to: '0'.repeat(64), amount: '1' });
+      await wallet.transfer({ to: '0'.repeat(64), amount: '1' });
+
+      expect(paths.filter((path) => path === '/network_identity')).toHaveLength(1);
+    });
+
+    it('should refuse to sign through a node on another network', async () => {
+      const { client, paths } = nodeClient({ ...IDENTITY, chain_id: 'tessera-mainnet-1' });
+      const { wallet } = Wallet.generate({ expectedIdentity: { chainId: 'tessera-testnet-1' } });
+      wallet.connect(client);
+
+      await expect(wallet.transfer({ to: '0'.repeat(64), amount: '1' })).rejects.toMatchObject({
+        code: ErrorCode.ChainMismatch,
+        details: { field: 'chainId', expected: 'tessera-testnet-1', actual: 'tessera-mainnet-1' },
+      });
+      expect(paths).not.toContain('/rpc');
+    });
+  });
+
+  describe('Hash verification', () => {
+    it('should reject a submission acknowledged under another hash', async () => {
+      const transport: Transport = {
+        async request(request) {
+          if (request.path === '/get_account') {
+            return { status: 200, data: { address: '', balance: 0, nonce: 0, exists: true } };
+          }
+          return {
+            status: 200,
+            data: { jsonrpc: '2.0', result: { hash: 'ee'.repeat(32), status: 'pending' }, id: 1 },
+          };
+        },
+      };
+      const { wallet } = Wallet.generate({
+        client: new TesseraClient('http://node.test', { transport, verifyHashes: true }),
+      });
+
+      await expect(wallet.transfer({ to: '0'.repeat(64), amount: '1' })).rejects.toMatchObject({
+        code: ErrorCode.HashMismatch,
+        details: { nodeHash: 'ee'.repeat(32) },
+      });
+    });
+  });
+
+  describe('Offline signing', () => {
+    it('should sign an envelope without a client', () => {
+      const { wallet } = Wallet.generate({ chainId: 'tessera-testnet-1' });
+      const envelope = createEnvelope(
+        new TransactionBuilder(wallet.address, 'tessera-testnet-1').buildUnstake({
+          amount: 1n,
+          nonce: 3n,
+        })
+      );
+
+      const signed = wallet.signEnvelope(envelope);
+
+      expect(signed.signed).toBe(true);
+      expect(verifyTransaction(signed.transaction).valid).toBe(true);
+    });
+
+    it('should refuse envelopes displayed with other decimals', () => {
+      const { wallet } = Wallet.generate({ chainId: 'tessera-testnet-1' });
+      const envelope = createEnvelope(
+        new TransactionBuilder(wallet.address, 'tessera-testnet-1').buildTransfer({
+          to: '0'.repeat(64),
+          amount: 1_000_000_000_000n,
+          nonce: 3n,
+        }),
+        { decimals: 18 }
+      );
+
+      expect(() => wallet.signEnvelope(envelope)).toThrow(
+        expect.objectContaining({
+          code: ErrorCode.InvalidTransaction,
+          details: expect.objectContaining({ field: 'decimals' }),
+        })
+      );
+    });
+
+    it('should refuse envelopes for another chain', () => {
+      const { wallet } = Wallet.generate({ chainId: 'tessera-testnet-1' });
+      const envelope = createEnvelope(
+        new TransactionBuilder(wallet.address, 'tessera-mainnet').buildUnstake({
+          amount: 1n,
+          nonce: 3n,
+        })
+      );
+
+      expect(() => wallet.signEnvelope(envelope)).toThrow(
+        expect.objectContaining({ code: ErrorCode.ChainMismatch })
+      );
+    });
+  });
 });